@@ -0,0 +1,62 @@
+// lib/availability.ts
+// One registry for "can this muscle be shown?", built by cross-checking
+// muscles.json against the model manifest and buggedmodels.json.
+import { getExcludedMuscles, getMuscles, type Muscle } from "./catalog";
+import { getModels } from "./manifest";
+import type { Region } from "./study";
+
+export type UnavailableMuscle = {
+  slug: string;
+  name: string;
+  region: string;
+  reason: string;
+};
+
+const modelSlugs = new Set(getModels().map((m) => m.slug));
+
+const excluded = getExcludedMuscles();
+const excludedSlugs = new Set(excluded.map((m) => m.slug));
+
+const PLAYABLE = getMuscles().filter(
+  (m) => modelSlugs.has(m.slug) && !excludedSlugs.has(m.slug)
+);
+const PLAYABLE_SLUGS = new Set(PLAYABLE.map((m) => m.slug));
+
+const UNAVAILABLE: UnavailableMuscle[] = [
+  ...excluded.map(({ slug, name, region, reason }) => ({
+    slug,
+    name,
+    region,
+    reason,
+  })),
+  ...getMuscles()
+    .filter((m) => !modelSlugs.has(m.slug) && !excludedSlugs.has(m.slug))
+    .map(({ slug, name, region }) => ({
+      slug,
+      name,
+      region,
+      reason: "no 3D model yet",
+    })),
+];
+
+/** True if the slug has a catalog entry and a working model */
+export function isPlayable(slug: string): boolean {
+  return PLAYABLE_SLUGS.has(slug);
+}
+
+/** Catalog entries that can be shown, in muscles.json order */
+export function getPlayableMuscles(): Muscle[] {
+  return PLAYABLE;
+}
+
+/** Playable muscles of one region ("all" = every playable muscle) */
+export function getPlayableByRegion(region: Region): Muscle[] {
+  if (region === "all") return PLAYABLE;
+  return PLAYABLE.filter((m) => m.region === region);
+}
+
+/** Muscles that can't be shown (bugged or model-less) for a region */
+export function getUnavailable(region: Region): UnavailableMuscle[] {
+  if (region === "all") return UNAVAILABLE;
+  return UNAVAILABLE.filter((m) => m.region === region);
+}
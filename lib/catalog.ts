@@ -0,0 +1,172 @@
+// lib/catalog.ts
+import muscles from "@/data/muscles.json";
+import bugged from "@/data/buggedmodels.json";
+
+export type MuscleRegion = "upper" | "lower";
+
+export type Oiia = {
+  origin: string;
+  insertion: string;
+  innervation: string;
+  action: string;
+};
+
+/** Structured fields compared by the Daily feedback grid */
+export type Attributes = {
+  nerve: string[];
+  roots: string[];
+  compartment: string;
+  joints: string[];
+};
+
+export type Muscle = {
+  slug: string;
+  name: string;
+  accepted: string[];
+  region: MuscleRegion;
+  oiia: Oiia;
+  attributes: Attributes;
+  /** Max typos accepted; defaults by name length */
+  tolerance?: number;
+  /** Slugs of muscles lying next to this one; unset = same compartment */
+  neighbors?: string[];
+};
+
+/** A muscle kept out of the catalog (buggedmodels.json) */
+export type ExcludedMuscle = Muscle & { reason: string };
+
+export const REGIONS: MuscleRegion[] = ["upper", "lower"];
+const OIIA_FIELDS = ["origin", "insertion", "innervation", "action"] as const;
+
+export function norm(s: string) {
+  return s
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+const isText = (v: unknown): v is string =>
+  typeof v === "string" && v.trim().length > 0;
+const isTextList = (v: unknown): v is string[] =>
+  Array.isArray(v) && v.every(isText);
+
+/** Schema problems with one raw entry (empty when it is a valid Muscle) */
+export function entryProblems(raw: unknown): string[] {
+  const m = (raw ?? {}) as Record<string, unknown>;
+  const out: string[] = [];
+
+  if (!isText(m.slug)) out.push("missing slug");
+  if (!isText(m.name)) out.push("name is empty");
+  if (!isTextList(m.accepted)) {
+    out.push("accepted must be an array of non-empty strings");
+  }
+  if (!REGIONS.includes(m.region as MuscleRegion)) {
+    out.push(`region must be one of ${REGIONS.join(", ")}`);
+  }
+
+  const oiia = (m.oiia ?? {}) as Record<string, unknown>;
+  for (const f of OIIA_FIELDS) {
+    if (!isText(oiia[f])) out.push(`oiia.${f} is missing or empty`);
+  }
+
+  const a = (m.attributes ?? {}) as Record<string, unknown>;
+  if (
+    !isTextList(a.nerve) ||
+    !isTextList(a.roots) ||
+    !isText(a.compartment) ||
+    !isTextList(a.joints)
+  ) {
+    out.push("attributes need nerve, roots, compartment and joints");
+  }
+
+  if (m.tolerance !== undefined && typeof m.tolerance !== "number") {
+    out.push("tolerance must be a number");
+  }
+  if (m.neighbors !== undefined && !isTextList(m.neighbors)) {
+    out.push("neighbors must be an array of slugs");
+  }
+  return out;
+}
+
+/** Keep valid entries; report (but don't crash on) broken ones */
+function load<T extends Muscle>(raw: unknown, source: string): T[] {
+  if (!Array.isArray(raw)) {
+    console.error(`${source}: expected an array of muscles`);
+    return [];
+  }
+  return raw.filter((m, i) => {
+    const problems = entryProblems(m);
+    if (problems.length) {
+      const slug = (m as { slug?: unknown })?.slug ?? "?";
+      console.error(`${source} [#${i} ${slug}]: ${problems.join("; ")}`);
+    }
+    return problems.length === 0;
+  }) as T[];
+}
+
+const MUSCLES = load<Muscle>(muscles, "muscles.json");
+const EXCLUDED = load<ExcludedMuscle>(bugged, "buggedmodels.json").map(
+  (m) => ({ ...m, reason: m.reason ?? "model is buggy" })
+);
+const BY_SLUG = new Map(MUSCLES.map((m) => [m.slug, m]));
+
+/** Every catalog muscle, in muscles.json order */
+export function getMuscles(): Muscle[] {
+  return MUSCLES;
+}
+
+/** Muscles deliberately left out of the catalog, with the reason why */
+export function getExcludedMuscles(): ExcludedMuscle[] {
+  return EXCLUDED;
+}
+
+export function getMuscle(slug: string): Muscle | undefined {
+  return BY_SLUG.get(slug);
+}
+
+export function getMusclesByRegion(region: MuscleRegion | "all"): Muscle[] {
+  if (region === "all") return MUSCLES;
+  return MUSCLES.filter((m) => m.region === region);
+}
+
+/** Muscles supplied by a nerve, e.g. "radial" (case-insensitive) */
+export function getMusclesByNerve(nerve: string): Muscle[] {
+  const want = norm(nerve);
+  return MUSCLES.filter((m) =>
+    m.attributes.nerve.some((n) => norm(n) === want)
+  );
+}
+
+/** Name, slug and accepted aliases, normalized and deduped */
+export function spellingsOf(m: Muscle): string[] {
+  return Array.from(
+    new Set([m.name, m.slug, ...m.accepted].map(norm))
+  ).filter(Boolean);
+}
+
+/** Exact (normalized) lookup by name, slug or accepted alias */
+export function resolveAlias(input: string): Muscle | undefined {
+  const n = norm(input);
+  if (!n) return undefined;
+  return MUSCLES.find((m) => spellingsOf(m).includes(n));
+}
+
+/**
+ * Muscles around `slug`, for the viewer's context layer: the curated
+ * `neighbors` list, or else the rest of its compartment.
+ */
+export function getNeighbors(slug: string, limit = 6): Muscle[] {
+  const m = BY_SLUG.get(slug);
+  if (!m) return [];
+  const list = m.neighbors
+    ? m.neighbors.flatMap((s) => BY_SLUG.get(s) ?? [])
+    : MUSCLES.filter(
+        (o) =>
+          o.slug !== slug &&
+          o.region === m.region &&
+          o.attributes.compartment === m.attributes.compartment
+      );
+  return list.slice(0, limit);
+}
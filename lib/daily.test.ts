@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getPlayableMuscles, isPlayable } from "./availability";
+import {
+  DAILY_TZ,
+  dateKey,
+  dayNumber,
+  getPuzzleNumber,
+  LAUNCH_DATE,
+} from "./daily";
+import { getDailyMuscleSlug, getDailySlugForDate } from "./dailySchedule";
+
+const DEVICE_TZ = process.env.TZ;
+
+afterEach(() => {
+  vi.useRealTimers();
+  process.env.TZ = DEVICE_TZ;
+});
+
+/** Date keys from launch through `last`, one per day */
+function daysThrough(last: string): string[] {
+  const from = dayNumber(LAUNCH_DATE);
+  return Array.from({ length: dayNumber(last) - from + 1 }, (_, i) =>
+    new Date((from + i) * 86_400_000).toISOString().slice(0, 10)
+  );
+}
+
+/** The Daily as seen at `iso` by a device set to `tz` */
+function slugAt(iso: string, tz: string) {
+  vi.useFakeTimers({ now: new Date(iso) });
+  process.env.TZ = tz;
+  return getDailyMuscleSlug(DAILY_TZ);
+}
+
+describe("getDailySlugForDate", () => {
+  it("gives the same playable muscle for the same date", () => {
+    const first = getDailySlugForDate("2025-10-12");
+    expect(getDailySlugForDate("2025-10-12")).toBe(first);
+    expect(isPlayable(first)).toBe(true);
+  });
+
+  it("never repeats the day before", () => {
+    // several cycles, so the boundaries and stand-in days are covered
+    const slugs = daysThrough("2028-12-31").map(getDailySlugForDate);
+    slugs.forEach((slug, i) => {
+      expect(isPlayable(slug)).toBe(true);
+      if (i > 0) expect(slug).not.toBe(slugs[i - 1]);
+    });
+  });
+
+  it("shows every muscle once a cycle before any repeats", () => {
+    // the pool lists every playable muscle, so a cycle is that many days
+    const size = getPlayableMuscles().length;
+    const slugs = daysThrough("2028-12-31").map(getDailySlugForDate);
+    for (let start = 0; start + size <= slugs.length; start += size) {
+      expect(new Set(slugs.slice(start, start + size)).size).toBe(size);
+    }
+  });
+
+  it("keeps the days played so far when the catalog changes", async () => {
+    const days = daysThrough(dateKey(DAILY_TZ));
+    const before = days.map(getDailySlugForDate);
+    const { default: catalog } = await import("@/data/muscles.json");
+    // one muscle leaves the catalog and a new one joins it
+    const dropped = before[0];
+    const added = { ...catalog[0], slug: "new-muscle", name: "New muscle" };
+
+    vi.resetModules();
+    vi.doMock("@/data/muscles.json", () => ({
+      default: [...catalog.filter((m) => m.slug !== dropped), added],
+    }));
+    try {
+      const edited = await import("./dailySchedule");
+      const after = days.map(edited.getDailySlugForDate);
+      after.forEach((slug, i) => {
+        // only the days of the muscle that left need a stand-in
+        if (before[i] === dropped) expect(slug).not.toBe(dropped);
+        else expect(slug).toBe(before[i]);
+        if (i > 0) expect(slug).not.toBe(after[i - 1]);
+      });
+    } finally {
+      vi.doUnmock("@/data/muscles.json");
+      vi.resetModules();
+    }
+  });
+
+  it("still answers for dates before launch", () => {
+    expect(isPlayable(getDailySlugForDate("2024-01-01"))).toBe(true);
+  });
+});
+
+describe("getDailyMuscleSlug", () => {
+  it("is the same everywhere at the same instant", () => {
+    const iso = "2025-10-12T15:00:00Z";
+    const here = slugAt(iso, "America/New_York");
+    for (const tz of ["Asia/Tokyo", "Europe/London", "Pacific/Honolulu"]) {
+      expect(slugAt(iso, tz)).toBe(here);
+    }
+  });
+
+  it("rolls over at New York midnight, not the device's", () => {
+    // 23:59 and 00:00 in New York; already the 12th in Tokyo for both
+    expect(slugAt("2025-10-12T03:59:00Z", "Asia/Tokyo")).toBe(
+      getDailySlugForDate("2025-10-11")
+    );
+    expect(slugAt("2025-10-12T04:00:00Z", "Asia/Tokyo")).toBe(
+      getDailySlugForDate("2025-10-12")
+    );
+  });
+
+  it("follows New York midnight across the autumn DST change", () => {
+    // 2025-11-02: clocks go back at 02:00 EDT, so that day lasts 25 hours
+    vi.useFakeTimers({ now: new Date("2025-11-02T04:00:00Z") });
+    expect(dateKey(DAILY_TZ)).toBe("2025-11-02");
+    vi.setSystemTime(new Date("2025-11-02T06:30:00Z")); // the repeated 01:30
+    expect(dateKey(DAILY_TZ)).toBe("2025-11-02");
+    vi.setSystemTime(new Date("2025-11-03T04:59:00Z")); // 23:59 EST
+    expect(dateKey(DAILY_TZ)).toBe("2025-11-02");
+    vi.setSystemTime(new Date("2025-11-03T05:00:00Z"));
+    expect(dateKey(DAILY_TZ)).toBe("2025-11-03");
+  });
+
+  it("follows New York midnight across the spring DST change", () => {
+    // 2026-03-08: clocks go forward at 02:00 EST, so that day lasts 23 hours
+    vi.useFakeTimers({ now: new Date("2026-03-08T04:59:00Z") });
+    expect(dateKey(DAILY_TZ)).toBe("2026-03-07");
+    vi.setSystemTime(new Date("2026-03-08T05:00:00Z"));
+    expect(dateKey(DAILY_TZ)).toBe("2026-03-08");
+    vi.setSystemTime(new Date("2026-03-09T03:59:00Z")); // 23:59 EDT
+    expect(dateKey(DAILY_TZ)).toBe("2026-03-08");
+    vi.setSystemTime(new Date("2026-03-09T04:00:00Z"));
+    expect(dateKey(DAILY_TZ)).toBe("2026-03-09");
+  });
+});
+
+describe("getPuzzleNumber", () => {
+  it("counts launch day as #1 and goes up by one each NY day", () => {
+    vi.useFakeTimers({ now: new Date(`${LAUNCH_DATE}T12:00:00Z`) });
+    expect(getPuzzleNumber(DAILY_TZ)).toBe(1);
+    // the 25-hour day doesn't skip or repeat a number
+    vi.setSystemTime(new Date("2025-11-02T12:00:00Z"));
+    expect(getPuzzleNumber(DAILY_TZ)).toBe(63);
+    vi.setSystemTime(new Date("2025-11-03T12:00:00Z"));
+    expect(getPuzzleNumber(DAILY_TZ)).toBe(64);
+  });
+});
@@ -1,10 +1,15 @@
 // lib/daily.ts
-import muscles from "@/data/muscles.json";
+// The Daily calendar. Which muscle falls on a date is in dailySchedule.ts,
+// kept apart so client code can use these without shipping the answer.
 
-type MuscleLike = { slug: string };
+/** Everyone shares the same Daily for the New York calendar day */
+export const DAILY_TZ = "America/New_York";
+
+/** Daily #1 was played on this NY-local date */
+export const LAUNCH_DATE = "2025-09-01";
 
 /** YYYY-MM-DD in a given IANA timezone (e.g., "America/New_York") */
-function dateKey(tz: string): string {
+export function dateKey(tz: string): string {
   const parts = new Intl.DateTimeFormat("en-CA", {
     timeZone: tz,
     year: "numeric",
@@ -15,26 +20,18 @@ function dateKey(tz: string): string {
   return `${get("year")}-${get("month")}-${get("day")}`;
 }
 
-/** Simple deterministic int from a date key string */
-function hashDateKey(key: string): number {
-  // 32-bit FNV-1a
-  let h = 0x811c9dc5;
-  for (let i = 0; i < key.length; i++) {
-    h ^= key.charCodeAt(i);
-    h = Math.imul(h, 0x01000193);
-  }
-  return h >>> 0;
+/** Whole days since 1970-01-01 for a YYYY-MM-DD key (timezone-free) */
+export function dayNumber(key: string): number {
+  const [y, m, d] = key.split("-").map(Number);
+  return Math.floor(Date.UTC(y, m - 1, d) / 86_400_000);
+}
+
+/** 1-based puzzle number for a YYYY-MM-DD key */
+export function puzzleNumberFor(key: string): number {
+  return dayNumber(key) - dayNumber(LAUNCH_DATE) + 1;
 }
 
-/** Return today's daily muscle slug in the provided timezone. */
-export function getDailyMuscleSlug(tz: string): string {
-  const list = muscles as unknown as MuscleLike[];
-  if (!Array.isArray(list) || list.length === 0) {
-    // Fallback so page doesn't crash; you can throw instead if you prefer.
-    return "unknown";
-  }
-  const today = dateKey(tz);
-  const h = hashDateKey(today);
-  const idx = h % list.length;
-  return list[idx].slug;
+/** 1-based puzzle number for today's Daily in the provided timezone. */
+export function getPuzzleNumber(tz: string): number {
+  return puzzleNumberFor(dateKey(tz));
 }
@@ -0,0 +1,29 @@
+// lib/dailyApi.ts
+// Browser side of /api/daily. Only types come from dailyPuzzle.ts, so the
+// schedule (and with it the answer) stays out of the client bundle.
+import type { DailyGuessRequest, DailyState } from "./dailyPuzzle";
+
+async function readState(res: Response): Promise<DailyState> {
+  if (!res.ok) throw new Error(`Daily API error ${res.status}`);
+  return (await res.json()) as DailyState;
+}
+
+/** Today's puzzle, before any guess */
+export async function fetchDaily(context = false): Promise<DailyState> {
+  const res = await fetch(`/api/daily${context ? "?context=1" : ""}`, {
+    cache: "no-store",
+  });
+  return readState(res);
+}
+
+/** Grade the game so far: every guess, not just the newest */
+export async function postDailyGame(
+  game: DailyGuessRequest
+): Promise<DailyState> {
+  const res = await fetch("/api/daily/guess", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(game),
+  });
+  return readState(res);
+}
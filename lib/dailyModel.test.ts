@@ -0,0 +1,114 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { NodeIO } from "@gltf-transform/core";
+import { ALL_EXTENSIONS } from "@gltf-transform/extensions";
+import { getBounds } from "@gltf-transform/functions";
+import { MeshoptDecoder } from "meshoptimizer";
+import { describe, expect, it } from "vitest";
+import { padGlb, reencodeModel } from "./dailyModel";
+import { getModelInfo } from "./manifest";
+
+const info = getModelInfo("deltoid")!;
+const source = new Uint8Array(
+  readFileSync(path.join(process.cwd(), "public", info.url))
+);
+
+/** The JSON and binary chunks of a GLB */
+function chunks(glb: Uint8Array) {
+  const view = new DataView(glb.buffer, glb.byteOffset, glb.byteLength);
+  const jsonLength = view.getUint32(12, true);
+  return {
+    length: view.getUint32(8, true),
+    json: JSON.parse(
+      new TextDecoder().decode(glb.subarray(20, 20 + jsonLength))
+    ) as Record<string, Array<Record<string, unknown>>>,
+    bin: glb.subarray(20 + jsonLength),
+  };
+}
+
+/** Each compressed buffer view's bytes, as text to compare */
+function payloads(glb: Uint8Array): string[] {
+  const { json, bin } = chunks(glb);
+  const data = bin.subarray(8); // after the chunk header
+  return json.bufferViews.map((view) => {
+    const { byteOffset = 0, byteLength } = (
+      view.extensions as Record<
+        string,
+        { byteOffset?: number; byteLength: number }
+      >
+    ).EXT_meshopt_compression;
+    return Buffer.from(
+      data.subarray(byteOffset, byteOffset + byteLength)
+    ).toString("base64");
+  });
+}
+
+async function read(glb: Uint8Array) {
+  await MeshoptDecoder.ready;
+  return new NodeIO()
+    .registerExtensions(ALL_EXTENSIONS)
+    .registerDependencies({ "meshopt.decoder": MeshoptDecoder })
+    .readBinary(glb);
+}
+
+describe("padGlb", () => {
+  it("pads to a size many models share, keeping the geometry", () => {
+    const PAD = 64 * 1024;
+    const out = padGlb(source, PAD);
+    expect(out.byteLength % PAD).toBe(0);
+    expect(chunks(out).length).toBe(out.byteLength);
+    expect(chunks(out).json).toEqual(chunks(source).json);
+    const same = Buffer.compare(chunks(out).bin, chunks(source).bin) === 0;
+    expect(same).toBe(true);
+  });
+
+  it("refuses a file that isn't a binary glTF", () => {
+    expect(() => padGlb(new TextEncoder().encode("{}"))).toThrow(
+      "Not a binary glTF"
+    );
+  });
+});
+
+describe("reencodeModel", async () => {
+  const out = await reencodeModel(source);
+
+  it("drops the names that spell out the muscle", () => {
+    expect(JSON.stringify(chunks(source).json.nodes)).toMatch(/deltoid/i);
+    expect(JSON.stringify(chunks(out).json)).not.toMatch(/deltoid|"name"/i);
+  });
+
+  it("shares no accessor bounds or compressed bytes with the public file", () => {
+    const bounds = (glb: Uint8Array) =>
+      chunks(glb)
+        .json.accessors.filter((a) => a.min)
+        .map((a) => JSON.stringify([a.min, a.max]));
+    const before = new Set(bounds(source));
+    expect(bounds(out).filter((b) => before.has(b))).toEqual([]);
+
+    const bytes = new Set(payloads(source));
+    expect(payloads(out).filter((p) => bytes.has(p))).toEqual([]);
+  });
+
+  it("is encoded afresh each time", async () => {
+    const again = await reencodeModel(source);
+    expect(Buffer.compare(chunks(again).bin, chunks(out).bin)).not.toBe(0);
+  });
+
+  it("draws the same muscle in the same place", async () => {
+    const [a, b] = await Promise.all([read(source), read(out)]);
+    const { min, max } = getBounds(b.getRoot().listScenes()[0]);
+    const expected = getBounds(a.getRoot().listScenes()[0]);
+    // within quantization error
+    min.forEach((v, i) => expect(v).toBeCloseTo(expected.min[i], 2));
+    max.forEach((v, i) => expect(v).toBeCloseTo(expected.max[i], 2));
+
+    // the manifest counts the shown scene, as the viewer does
+    const triangles = b
+      .getRoot()
+      .listMeshes()
+      .flatMap((m) => m.listPrimitives())
+      .reduce((n, p) => n + p.getIndices()!.getCount() / 3, 0);
+    expect(triangles).toBe(info.triangles);
+    expect(out.byteLength % (256 * 1024)).toBe(0);
+  });
+});
@@ -0,0 +1,248 @@
+// lib/dailyModel.ts
+// The Daily's model as /api/daily/model sends it. Server only. The static
+// copy would give the answer away: its node names spell out the muscle, and
+// its accessor bounds and compressed bytes can be looked up against the
+// public files and the manifest. So each date gets its own encoding.
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  Logger,
+  NodeIO,
+  type Document,
+  type Primitive,
+  type vec3,
+  type vec4,
+} from "@gltf-transform/core";
+import { ALL_EXTENSIONS } from "@gltf-transform/extensions";
+import { meshopt, prune } from "@gltf-transform/functions";
+import { MeshoptDecoder, MeshoptEncoder } from "meshoptimizer";
+import { modelUrl } from "./manifest";
+
+/** Sizes are rounded up to this, so every current model comes out the same */
+const PAD_TO = 256 * 1024;
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const CHUNK_JSON = 0x4e4f534a; // "JSON"
+/** 12-byte file header + the JSON chunk's 8-byte header */
+const HEAD = 20;
+
+/**
+ * A copy of a binary glTF padded with spaces after its JSON (which JSON
+ * ignores) to a multiple of `padTo` bytes. The binary chunk is kept as is.
+ */
+export function padGlb(
+  glb: Uint8Array,
+  padTo = PAD_TO
+): Uint8Array<ArrayBuffer> {
+  const view = new DataView(glb.buffer, glb.byteOffset, glb.byteLength);
+  if (
+    glb.byteLength < HEAD ||
+    view.getUint32(0, true) !== GLB_MAGIC ||
+    view.getUint32(16, true) !== CHUNK_JSON
+  ) {
+    throw new Error("Not a binary glTF");
+  }
+  const jsonLength = view.getUint32(12, true);
+  const text = glb.subarray(HEAD, HEAD + jsonLength);
+  const bin = glb.subarray(HEAD + jsonLength); // header included
+  // chunks stay 4-byte aligned: HEAD, padTo and the binary chunk all are
+  const total = Math.ceil((HEAD + text.length + bin.length) / padTo) * padTo;
+
+  const out = new Uint8Array(total);
+  out.fill(0x20, HEAD, total - bin.length);
+  out.set(text, HEAD);
+  out.set(bin, total - bin.length);
+  const head = new DataView(out.buffer);
+  head.setUint32(0, GLB_MAGIC, true);
+  head.setUint32(4, 2, true);
+  head.setUint32(8, total, true);
+  head.setUint32(12, total - HEAD - bin.length, true);
+  head.setUint32(16, CHUNK_JSON, true);
+  return out;
+}
+
+let io: Promise<NodeIO> | undefined;
+
+function getIO(): Promise<NodeIO> {
+  io ??= Promise.all([MeshoptEncoder.ready, MeshoptDecoder.ready]).then(() =>
+    new NodeIO()
+      .setLogger(new Logger(Logger.Verbosity.WARN))
+      .registerExtensions(ALL_EXTENSIONS)
+      .registerDependencies({
+        "meshopt.encoder": MeshoptEncoder,
+        "meshopt.decoder": MeshoptDecoder,
+      })
+  );
+  return io;
+}
+
+/** A uniformly random rotation (Shoemake's method) */
+function randomRotation(random: () => number): vec4 {
+  const [u, v, w] = [random(), random(), random()];
+  const a = Math.sqrt(1 - u);
+  const b = Math.sqrt(u);
+  return [
+    a * Math.sin(2 * Math.PI * v),
+    a * Math.cos(2 * Math.PI * v),
+    b * Math.sin(2 * Math.PI * w),
+    b * Math.cos(2 * Math.PI * w),
+  ];
+}
+
+/** `p` rotated by the unit quaternion `q` */
+function rotate([x, y, z, w]: vec4, p: number[]): vec3 {
+  // t = 2 q.xyz × p; p' = p + w t + q.xyz × t
+  const tx = 2 * (y * p[2] - z * p[1]);
+  const ty = 2 * (z * p[0] - x * p[2]);
+  const tz = 2 * (x * p[1] - y * p[0]);
+  return [
+    p[0] + w * tx + (y * tz - z * ty),
+    p[1] + w * ty + (z * tx - x * tz),
+    p[2] + w * tz + (x * ty - y * tx),
+  ];
+}
+
+/** 0..n-1 in random order */
+function shuffled(n: number, random: () => number): Uint32Array {
+  const order = new Uint32Array(n).map((_, i) => i);
+  for (let i = n - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+/**
+ * Replace the primitive's accessors with copies moved by (q, t), with the
+ * vertices and triangles in a new order. Triangles keep their winding.
+ */
+function scramble(
+  doc: Document,
+  prim: Primitive,
+  q: vec4,
+  t: vec3,
+  random: () => number
+) {
+  const position = prim.getAttribute("POSITION");
+  if (!position) return;
+  const n = position.getCount();
+  const order = shuffled(n, random); // new vertex -> old
+  const moved = new Uint32Array(n); // old vertex -> new
+  order.forEach((old, i) => (moved[old] = i));
+
+  const element: number[] = [];
+  for (const semantic of prim.listSemantics()) {
+    const source = prim.getAttribute(semantic)!;
+    const size = source.getElementSize();
+    const array = new Float32Array(n * size);
+    for (let i = 0; i < n; i++) {
+      source.getElement(order[i], element); // denormalized
+      let value = element;
+      if (semantic === "POSITION") {
+        value = rotate(q, element).map((c, k) => c + t[k]);
+      } else if (semantic === "NORMAL" || semantic === "TANGENT") {
+        value = [...rotate(q, element), ...element.slice(3)];
+      }
+      array.set(value, i * size);
+    }
+    prim.setAttribute(
+      semantic,
+      doc
+        .createAccessor()
+        .setType(source.getType())
+        .setArray(array)
+        .setBuffer(source.getBuffer())
+    );
+  }
+
+  const indices = prim.getIndices();
+  const count = indices ? indices.getCount() : n;
+  const index = (i: number) => (indices ? indices.getScalar(i) : i);
+  const triangles = shuffled(Math.floor(count / 3), random);
+  const array = n > 0xffff ? new Uint32Array(count) : new Uint16Array(count);
+  triangles.forEach((old, k) => {
+    const turn = Math.floor(random() * 3);
+    for (let j = 0; j < 3; j++) {
+      array[3 * k + j] = moved[index(3 * old + ((j + turn) % 3))];
+    }
+  });
+  prim.setIndices(
+    doc
+      .createAccessor()
+      .setType("SCALAR")
+      .setArray(array)
+      .setBuffer(position.getBuffer())
+  );
+}
+
+/**
+ * A fresh encoding of a model, drawn in the same place but sharing no bytes,
+ * names or accessor bounds with the original: every mesh is moved by a random
+ * rigid transform (undone by a new child node), its vertices and triangles
+ * are reordered, and the result is quantized and compressed again. The
+ * triangle count and the shape on screen are unchanged, since they are what
+ * the player is shown.
+ */
+export async function reencodeModel(
+  glb: Uint8Array,
+  random: () => number = Math.random
+): Promise<Uint8Array<ArrayBuffer>> {
+  const reader = await getIO();
+  const doc = await reader.readBinary(glb);
+  const root = doc.getRoot();
+
+  const q = randomRotation(random);
+  const t: vec3 = [random() - 0.5, random() - 0.5, random() - 0.5];
+  for (const mesh of root.listMeshes()) {
+    for (const prim of mesh.listPrimitives()) scramble(doc, prim, q, t, random);
+  }
+  // the inverse of (q, t), so each mesh is drawn where it was
+  const back: vec4 = [-q[0], -q[1], -q[2], q[3]];
+  const offset = rotate(back, t).map((c) => -c) as vec3;
+  for (const node of root.listNodes()) {
+    const mesh = node.getMesh();
+    if (!mesh) continue;
+    node
+      .setMesh(null)
+      .addChild(
+        doc.createNode().setMesh(mesh).setRotation(back).setTranslation(offset)
+      );
+  }
+
+  for (const property of [
+    ...root.listScenes(),
+    ...root.listNodes(),
+    ...root.listMeshes(),
+    ...root.listMaterials(),
+    ...root.listTextures(),
+    ...root.listAccessors(),
+    ...root.listBuffers(),
+  ]) {
+    property.setName("").setExtras({});
+  }
+  root.setExtras({});
+
+  await doc.transform(prune(), meshopt({ encoder: MeshoptEncoder }));
+  return padGlb(await reader.writeBinary(doc));
+}
+
+/** Encodings of the last few dates, so a day's model is built once */
+const encoded = new Map<string, Promise<Uint8Array<ArrayBuffer>>>();
+const KEEP = 3;
+
+/** The model for `date`'s answer `slug`, re-encoded for that date */
+export function readDailyModel(
+  date: string,
+  slug: string
+): Promise<Uint8Array<ArrayBuffer>> {
+  let model = encoded.get(date);
+  if (!model) {
+    const file = path.join(process.cwd(), "public", modelUrl(slug));
+    model = fs.readFile(file).then((glb) => reencodeModel(glb));
+    // a failed read is tried again on the next request
+    model.catch(() => encoded.delete(date));
+    encoded.set(date, model);
+    if (encoded.size > KEEP) encoded.delete(encoded.keys().next().value!);
+  }
+  return model;
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { getPlayableMuscles } from "./availability";
+import { getMuscle } from "./catalog";
+import { dailyState, parseGuessRequest } from "./dailyPuzzle";
+import { getDailySlugForDate } from "./dailySchedule";
+import { MAX_DAILY_GUESSES } from "./history";
+
+const DATE = "2025-10-12";
+const answer = getMuscle(getDailySlugForDate(DATE))!;
+const others = getPlayableMuscles()
+  .filter((m) => m.slug !== answer.slug)
+  .map((m) => m.name);
+
+describe("dailyState", () => {
+  it("gives nothing away before the first guess", () => {
+    const s = dailyState(DATE, { guesses: [] });
+    expect(s).toMatchObject({
+      date: DATE,
+      puzzle: 42,
+      status: "playing",
+      rows: [],
+      last: null,
+      hints: [],
+      neighbors: null,
+    });
+    expect(s.answer).toBeUndefined();
+    expect(JSON.stringify(s)).not.toContain(answer.slug);
+  });
+
+  it("grades each wrong guess and unlocks one hint per miss", () => {
+    const s = dailyState(DATE, { guesses: others.slice(0, 2) });
+    expect(s.status).toBe("playing");
+    expect(s.last).toBe("wrong");
+    expect(s.rows.map((r) => r.label)).toEqual(others.slice(0, 2));
+    expect(s.rows.every((r) => !r.correct)).toBe(true);
+    expect(s.hints.map((h) => h.label)).toEqual(["Action", "Innervation"]);
+    expect(s.answer).toBeUndefined();
+  });
+
+  it("reveals the answer once solved", () => {
+    const guesses = [others[0], answer.name];
+    const s = dailyState(DATE, { guesses });
+    expect(s.status).toBe("solved");
+    expect(s.last).toBe("exact");
+    expect(s.rows[1].correct).toBe(true);
+    expect(s.answer).toEqual({
+      slug: answer.slug,
+      name: answer.name,
+      oiia: answer.oiia,
+    });
+  });
+
+  it("ignores guesses sent after the winning one", () => {
+    const s = dailyState(DATE, { guesses: [answer.name, others[0]] });
+    expect(s.rows).toHaveLength(1);
+    expect(s.last).toBe("exact");
+  });
+
+  it("is lost after the last wrong guess", () => {
+    const s = dailyState(DATE, {
+      guesses: others.slice(0, MAX_DAILY_GUESSES),
+    });
+    expect(s.status).toBe("lost");
+    expect(s.answer?.slug).toBe(answer.slug);
+  });
+
+  it("is lost when the player gives up", () => {
+    const s = dailyState(DATE, { guesses: [], gaveUp: true });
+    expect(s.status).toBe("lost");
+    expect(s.answer?.slug).toBe(answer.slug);
+  });
+
+  it("grades a shared group name as the answer it solved", () => {
+    // the first Daily for rhomboid major; "rhomboid" names both rhomboids
+    const date = Array.from({ length: 200 }, (_, i) =>
+      new Date(Date.UTC(2025, 8, 1 + i)).toISOString().slice(0, 10)
+    ).find((d) => getDailySlugForDate(d) === "rhomboid-major")!;
+    const s = dailyState(date, { guesses: ["rhomboid"] });
+    expect(s.status).toBe("solved");
+    expect(s.rows[0].correct).toBe(true);
+  });
+
+  it("only lists neighbours once context is asked for", () => {
+    const s = dailyState(DATE, { guesses: [], context: true });
+    expect(s.neighbors?.length).toBeGreaterThan(0);
+    expect(s.neighbors).not.toContain(answer.slug);
+  });
+});
+
+describe("parseGuessRequest", () => {
+  const today = "2025-10-12";
+
+  it("defaults to today's puzzle", () => {
+    expect(parseGuessRequest({ guesses: ["deltoid"] }, today)).toEqual({
+      date: today,
+      guesses: ["deltoid"],
+      gaveUp: false,
+      context: false,
+    });
+  });
+
+  it("allows past puzzles but not future ones", () => {
+    expect(
+      parseGuessRequest({ date: "2025-10-01", guesses: [] }, today)?.date
+    ).toBe("2025-10-01");
+    expect(
+      parseGuessRequest({ date: "2025-10-13", guesses: [] }, today)
+    ).toBeNull();
+  });
+
+  it.each([
+    ["no body", null],
+    ["a bad date", { date: "12/10/2025", guesses: [] }],
+    ["guesses that aren't a list", { guesses: "deltoid" }],
+    ["a guess that isn't text", { guesses: [3] }],
+    ["too many guesses", { guesses: Array(MAX_DAILY_GUESSES + 1).fill("a") }],
+    ["an overlong guess", { guesses: ["a".repeat(101)] }],
+  ])("rejects %s", (_, body) => {
+    expect(parseGuessRequest(body, today)).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+// lib/dailyPuzzle.ts
+// What the Daily API tells a player about a puzzle. Guesses are checked here,
+// on the server, and the answer only comes back once the game is over. The
+// server keeps no state: each request carries the whole game so far.
+import { getMuscle, getNeighbors, type Oiia } from "./catalog";
+import { dayNumber, puzzleNumberFor } from "./daily";
+import { getDailySlugForDate } from "./dailySchedule";
+import { hintsFor, type Hint } from "./facts";
+import { buildFeedbackRow, type FeedbackRow } from "./feedback";
+import { MAX_DAILY_GUESSES } from "./history";
+import { matchGuess, resolveGuess, type MatchKind } from "./match";
+
+export type DailyStatus = "playing" | "solved" | "lost";
+
+export type DailyAnswer = { slug: string; name: string; oiia: Oiia };
+
+export type DailyState = {
+  /** NY-local YYYY-MM-DD */
+  date: string;
+  puzzle: number;
+  maxGuesses: number;
+  /** Where to load the model; manifest file names would give the answer away */
+  model: string;
+  /** Feedback for each guess, in order */
+  rows: FeedbackRow[];
+  /** How the latest guess matched the answer (null before the first) */
+  last: MatchKind | null;
+  /** Facts unlocked by the wrong guesses so far */
+  hints: Hint[];
+  /** Slugs for the neighbour layer, once the player has turned it on */
+  neighbors: string[] | null;
+  status: DailyStatus;
+  /** Only once the puzzle is solved or lost */
+  answer?: DailyAnswer;
+};
+
+/** A game so far, as the client saved it */
+export type DailyGame = {
+  /** Every guess, as typed, the newest last */
+  guesses: string[];
+  /** Reveal Answer was used */
+  gaveUp?: boolean;
+  /** The neighbour layer was turned on (a hint) */
+  context?: boolean;
+};
+
+/** Body of POST /api/daily/guess */
+export type DailyGuessRequest = DailyGame & { date: string };
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+/** Longer than any muscle name or alias */
+const MAX_GUESS_LENGTH = 100;
+
+/** A well-formed date whose puzzle may be played (never a future one) */
+export function isPlayableDate(date: unknown, today: string): date is string {
+  return (
+    typeof date === "string" &&
+    DATE_RE.test(date) &&
+    !Number.isNaN(dayNumber(date)) &&
+    dayNumber(date) <= dayNumber(today)
+  );
+}
+
+/** The request body as a DailyGuessRequest, or null if it isn't one */
+export function parseGuessRequest(
+  body: unknown,
+  today: string
+): DailyGuessRequest | null {
+  const b = (body ?? {}) as Record<string, unknown>;
+  const date = b.date ?? today;
+  if (!isPlayableDate(date, today)) return null;
+  if (
+    !Array.isArray(b.guesses) ||
+    b.guesses.length > MAX_DAILY_GUESSES ||
+    !b.guesses.every(
+      (g) => typeof g === "string" && g.length <= MAX_GUESS_LENGTH
+    )
+  ) {
+    return null;
+  }
+  return {
+    date,
+    guesses: b.guesses,
+    gaveUp: b.gaveUp === true,
+    context: b.context === true,
+  };
+}
+
+/** URL of the puzzle's model, served by /api/daily/model */
+export function dailyModelUrl(date: string): string {
+  return `/api/daily/model?date=${date}`;
+}
+
+/** The answer for `date`; never send this to a client mid-game */
+export function dailyAnswerSlug(date: string): string {
+  return getDailySlugForDate(date);
+}
+
+/** Grade a whole game against the puzzle for `date` */
+export function dailyState(date: string, game: DailyGame): DailyState {
+  const slug = dailyAnswerSlug(date);
+  const answer = getMuscle(slug);
+
+  const kinds = game.guesses.map(
+    (text): MatchKind => (answer ? matchGuess(text, answer).kind : "wrong")
+  );
+  const solvedAt = kinds.findIndex((k) => k === "exact" || k === "typo");
+  // anything sent after the winning guess doesn't count
+  const guesses =
+    solvedAt >= 0 ? game.guesses.slice(0, solvedAt + 1) : game.guesses;
+  const misses = solvedAt >= 0 ? solvedAt : guesses.length;
+
+  const status: DailyStatus =
+    solvedAt >= 0
+      ? "solved"
+      : game.gaveUp || misses >= MAX_DAILY_GUESSES
+      ? "lost"
+      : "playing";
+
+  return {
+    date,
+    puzzle: puzzleNumberFor(date),
+    maxGuesses: MAX_DAILY_GUESSES,
+    model: dailyModelUrl(date),
+    // the winning guess is the answer, even as a name shared with another
+    // muscle ("rhomboid")
+    rows: guesses.map((text, i) =>
+      buildFeedbackRow(i === solvedAt ? slug : resolveGuess(text), slug, text)
+    ),
+    last: guesses.length ? kinds[guesses.length - 1] : null,
+    hints: answer ? hintsFor(answer, misses) : [],
+    neighbors: game.context ? getNeighbors(slug).map((m) => m.slug) : null,
+    status,
+    answer:
+      status !== "playing" && answer
+        ? { slug, name: answer.name, oiia: answer.oiia }
+        : undefined,
+  };
+}
@@ -0,0 +1,106 @@
+// lib/dailySchedule.ts
+// Which muscle is the Daily on a given date. Server only (the /api/daily
+// routes): a client import would put today's answer back in the bundle.
+import overrides from "@/data/daily-overrides.json";
+import pool from "@/data/daily-pool.json";
+import { getPlayableMuscles, isPlayable } from "./availability";
+import { dateKey, dayNumber, LAUNCH_DATE } from "./daily";
+import { seededShuffle } from "./study";
+
+/**
+ * Slugs in the schedule, in batches keyed by the date they joined. The file
+ * is append-only: a new muscle goes in a new batch dated no earlier than the
+ * day it's added, so catalog edits never reach cycles already played.
+ */
+const BATCHES = Object.entries(pool as Record<string, string[]>)
+  .map(([from, slugs]) => ({ from: dayNumber(from), slugs }))
+  .sort((a, b) => a.from - b.from);
+
+/** Simple deterministic int from a key string */
+function hashDateKey(key: string): number {
+  // 32-bit FNV-1a
+  let h = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Muscles in the schedule for a cycle starting on `startDay` */
+function scheduledPool(startDay: number): string[] {
+  return BATCHES.filter((b) => b.from <= startDay).flatMap((b) => b.slugs);
+}
+
+/** The cycle holding the day `n` days after launch: its first day + order */
+function cycleOf(n: number): { start: number; order: string[] } | null {
+  const launch = dayNumber(LAUNCH_DATE);
+  let last: string | undefined;
+  for (let cycle = 0, start = 0; ; cycle++) {
+    const slugs = scheduledPool(launch + start);
+    if (slugs.length === 0) return null;
+    const order = seededShuffle(slugs, hashDateKey(`cycle-${cycle}`));
+    // opening on the muscle the last cycle closed with would repeat it: trade
+    // places with the one half a cycle in, so the cycle stays a permutation
+    if (order[0] === last) {
+      const half = Math.floor(order.length / 2);
+      [order[0], order[half]] = [order[half], order[0]];
+    }
+    if (n < start + order.length) return { start, order };
+    last = order[order.length - 1];
+    start += order.length;
+  }
+}
+
+/**
+ * Slug for the day `n` days after launch. The schedule is a run of cycles,
+ * each a seeded permutation of the pool as it stood when the cycle began, so
+ * every muscle comes up once before any repeats. The pool only lists muscles
+ * that can be shown (scripts/validate-catalog.ts checks it); one that stops
+ * being playable later gets a stand-in from half a cycle away, and every
+ * other day keeps its muscle.
+ */
+function scheduledSlug(n: number): string | null {
+  const cycle = cycleOf(n);
+  if (!cycle) return null;
+  const { start, order } = cycle;
+  const i = n - start;
+  // within a cycle yesterday was another muscle, or a stand-in that avoided
+  // this one, so it only needs looking up at a boundary or for a stand-in
+  if (i > 0 && isPlayable(order[i])) return order[i];
+  const yesterday = n > 0 ? scheduledSlug(n - 1) : null;
+  if (isPlayable(order[i]) && order[i] !== yesterday) return order[i];
+
+  const half = Math.floor(order.length / 2);
+  for (let k = 0; k < order.length; k++) {
+    const slug = order[(i + half + k) % order.length];
+    // not tomorrow's muscle either, so the next day can keep its own
+    if (isPlayable(slug) && slug !== yesterday && slug !== order[i + 1]) {
+      return slug;
+    }
+  }
+  return null;
+}
+
+/** Daily muscle slug for a YYYY-MM-DD key; hand-curated overrides win. */
+export function getDailySlugForDate(key: string): string {
+  const curated = (overrides as Record<string, string>)[key];
+  if (curated && isPlayable(curated)) return curated;
+
+  const n = dayNumber(key) - dayNumber(LAUNCH_DATE);
+  const scheduled = n >= 0 ? scheduledSlug(n) : null;
+  if (scheduled) return scheduled;
+
+  // before launch (or empty schedule): plain hash over what can be shown
+  const list = getPlayableMuscles();
+  if (!Array.isArray(list) || list.length === 0) {
+    // Fallback so page doesn't crash; you can throw instead if you prefer.
+    return "unknown";
+  }
+  return list[hashDateKey(key) % list.length].slug;
+}
+
+/** Return today's daily muscle slug in the provided timezone. */
+export function getDailyMuscleSlug(tz: string): string {
+  return getDailySlugForDate(dateKey(tz));
+}
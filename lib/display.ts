@@ -0,0 +1,108 @@
+// lib/display.ts
+// Viewer appearance: colour palettes plus the player's saved display settings.
+
+export type PaletteId = "classic" | "colorblind" | "contrast";
+
+export type Palette = {
+  label: string;
+  muscle: number;
+  correct: number;
+  wrong: number;
+  skeleton: number;
+  ghost: number;
+};
+
+export const PALETTES: Record<PaletteId, Palette> = {
+  classic: {
+    label: "Classic",
+    muscle: 0xc84d4d,
+    correct: 0x34d399,
+    wrong: 0xf59e0b,
+    skeleton: 0x444444,
+    ghost: 0x94a3b8,
+  },
+  // Okabe–Ito colours: distinguishable with every common colour-vision deficiency
+  colorblind: {
+    label: "Colour-blind safe",
+    muscle: 0xcc79a7,
+    correct: 0x56b4e9,
+    wrong: 0xe69f00,
+    skeleton: 0x555555,
+    ghost: 0x999999,
+  },
+  contrast: {
+    label: "High contrast",
+    muscle: 0xffd400,
+    correct: 0x00e5ff,
+    wrong: 0xff3d00,
+    skeleton: 0x2a2a2a,
+    ghost: 0xe2e8f0,
+  },
+};
+
+export const PALETTE_IDS = Object.keys(PALETTES) as PaletteId[];
+
+export type DisplaySettings = {
+  palette: PaletteId;
+  showSkeleton: boolean;
+  /** 0–1 */
+  skeletonOpacity: number;
+  wireframe: boolean;
+  /** Fade the skeleton and neighbours out so only the target stands out */
+  isolate: boolean;
+};
+
+export const DEFAULT_DISPLAY: DisplaySettings = {
+  palette: "classic",
+  showSkeleton: true,
+  skeletonOpacity: 0.6,
+  wireframe: false,
+  isolate: false,
+};
+
+const STORAGE_KEY = "muscledle.display.v1";
+
+/** CSS colour for a palette entry */
+export function cssColor(hex: number): string {
+  return `#${hex.toString(16).padStart(6, "0")}`;
+}
+
+export function loadDisplay(): DisplaySettings {
+  const fresh = { ...DEFAULT_DISPLAY };
+  if (typeof window === "undefined") return fresh;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return fresh;
+    const parsed = JSON.parse(raw) as Partial<DisplaySettings>;
+    if (parsed.palette && parsed.palette in PALETTES) {
+      fresh.palette = parsed.palette;
+    }
+    if (typeof parsed.showSkeleton === "boolean") {
+      fresh.showSkeleton = parsed.showSkeleton;
+    }
+    if (typeof parsed.skeletonOpacity === "number") {
+      fresh.skeletonOpacity = Math.min(1, Math.max(0, parsed.skeletonOpacity));
+    }
+    if (typeof parsed.wireframe === "boolean") {
+      fresh.wireframe = parsed.wireframe;
+    }
+    if (typeof parsed.isolate === "boolean") fresh.isolate = parsed.isolate;
+    return fresh;
+  } catch {
+    return fresh;
+  }
+}
+
+export function saveDisplay(d: DisplaySettings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(d));
+  } catch {
+    // ignore quota/availability issues
+  }
+}
+
+/** How opaque the skeleton should be right now (0 = hidden) */
+export function skeletonTargetOpacity(d: DisplaySettings): number {
+  if (!d.showSkeleton) return 0;
+  return d.isolate ? Math.min(0.08, d.skeletonOpacity) : d.skeletonOpacity;
+}
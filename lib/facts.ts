@@ -0,0 +1,150 @@
+// lib/facts.ts
+import { getMuscle, getMuscles, norm, type Muscle, type Oiia } from "./catalog";
+
+export type OiiaField = keyof Oiia;
+
+export const OIIA_LABEL: Record<OiiaField, string> = {
+  origin: "Origin",
+  insertion: "Insertion",
+  innervation: "Innervation",
+  action: "Action",
+};
+
+export const OIIA_FIELDS: OiiaField[] = [
+  "origin",
+  "insertion",
+  "innervation",
+  "action",
+];
+
+/** A fact shown under the guess box */
+export type Hint = { label: string; value: string };
+
+/** Hint ladder: one more fact per wrong guess, vaguest first */
+const HINT_FIELDS: OiiaField[] = [
+  "action",
+  "innervation",
+  "origin",
+  "insertion",
+];
+
+/** The facts unlocked after `level` wrong guesses (Daily hints) */
+export function hintsFor(m: Muscle, level: number): Hint[] {
+  return HINT_FIELDS.slice(0, Math.max(0, level))
+    .filter((f) => m.oiia?.[f])
+    .map((f) => ({ label: OIIA_LABEL[f], value: m.oiia[f] }));
+}
+
+export type FactQuestion = {
+  slug: string;
+  field: OiiaField;
+  options: string[];
+  /** Index into `options` of the correct answer */
+  answer: number;
+};
+
+/** Right / total per OIIA field */
+export type FactScores = Record<OiiaField, { correct: number; total: number }>;
+
+const STORAGE_KEY = "muscledle.facts.v1";
+const CHOICES = 4;
+
+function shuffle<T>(arr: T[], rand: () => number): T[] {
+  const out = arr.slice();
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/**
+ * Multiple-choice question on one OIIA field of `slug`. Distractors are the
+ * same field from other muscles, same region first so they're plausible.
+ */
+export function buildFactQuestion(
+  slug: string,
+  field?: OiiaField,
+  rand: () => number = Math.random
+): FactQuestion | null {
+  const muscle = getMuscle(slug);
+  if (!muscle) return null;
+
+  const f = field ?? OIIA_FIELDS[Math.floor(rand() * OIIA_FIELDS.length)];
+  const correct = muscle.oiia[f];
+
+  const seen = new Set([norm(correct)]);
+  const others = getMuscles().filter((m) => m.slug !== slug);
+  const pool = [
+    ...shuffle(
+      others.filter((m) => m.region === muscle.region),
+      rand
+    ),
+    ...shuffle(
+      others.filter((m) => m.region !== muscle.region),
+      rand
+    ),
+  ];
+
+  const distractors: string[] = [];
+  for (const m of pool) {
+    if (distractors.length >= CHOICES - 1) break;
+    const value = m.oiia[f];
+    // identical text (e.g. both rhomboids' innervation) would be a second right answer
+    if (seen.has(norm(value))) continue;
+    seen.add(norm(value));
+    distractors.push(value);
+  }
+
+  const options = shuffle([correct, ...distractors], rand);
+  return { slug, field: f, options, answer: options.indexOf(correct) };
+}
+
+export function emptyFactScores(): FactScores {
+  return {
+    origin: { correct: 0, total: 0 },
+    insertion: { correct: 0, total: 0 },
+    innervation: { correct: 0, total: 0 },
+    action: { correct: 0, total: 0 },
+  };
+}
+
+export function loadFactScores(): FactScores {
+  const fresh = emptyFactScores();
+  if (typeof window === "undefined") return fresh;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return fresh;
+    const parsed = JSON.parse(raw) as Partial<FactScores>;
+    for (const f of OIIA_FIELDS) {
+      const s = parsed?.[f];
+      if (s && typeof s.correct === "number" && typeof s.total === "number") {
+        fresh[f] = { correct: s.correct, total: s.total };
+      }
+    }
+    return fresh;
+  } catch {
+    return fresh;
+  }
+}
+
+/** Count one answer for `field` and persist the running scores */
+export function recordFactAnswer(
+  field: OiiaField,
+  correct: boolean
+): FactScores {
+  const cur = loadFactScores();
+  const updated: FactScores = {
+    ...cur,
+    [field]: {
+      correct: cur[field].correct + (correct ? 1 : 0),
+      total: cur[field].total + 1,
+    },
+  };
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+  } catch {
+    // ignore quota/availability issues
+  }
+  return updated;
+}
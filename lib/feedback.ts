@@ -0,0 +1,72 @@
+// lib/feedback.ts
+import { getMuscle, type Muscle } from "./catalog";
+
+/** green = same, yellow = partial overlap, grey = nothing in common */
+export type Mark = "green" | "yellow" | "grey";
+
+export type FeedbackKey = "region" | "nerve" | "roots" | "compartment" | "joints";
+
+export type FeedbackCell = {
+  key: FeedbackKey;
+  /** The guessed muscle's value, formatted for display */
+  value: string;
+  mark: Mark;
+};
+
+export type FeedbackRow = {
+  /** Slug of the guessed muscle, or null if the guess wasn't a known muscle */
+  slug: string | null;
+  /** Display label: the muscle name, or the raw guess text */
+  label: string;
+  correct: boolean;
+  cells: FeedbackCell[];
+};
+
+/** Column order + headers for the Daily grid */
+export const FEEDBACK_COLUMNS: Array<{ key: FeedbackKey; label: string }> = [
+  { key: "region", label: "Region" },
+  { key: "nerve", label: "Nerve" },
+  { key: "roots", label: "Roots" },
+  { key: "compartment", label: "Compartment" },
+  { key: "joints", label: "Joints" },
+];
+
+function compareSets(guess: string[], answer: string[]): Mark {
+  const want = new Set(answer);
+  const shared = guess.filter((v) => want.has(v)).length;
+  if (shared === 0) return "grey";
+  return shared === guess.length && shared === want.size ? "green" : "yellow";
+}
+
+function valuesOf(m: Muscle, key: FeedbackKey): string[] {
+  if (key === "region") return [m.region];
+  if (key === "compartment") return [m.attributes.compartment];
+  return m.attributes[key];
+}
+
+/** Compare a guessed muscle against the answer, attribute by attribute. */
+export function buildFeedbackRow(
+  guessSlug: string | null,
+  answerSlug: string,
+  guessText = ""
+): FeedbackRow {
+  const guess = guessSlug ? getMuscle(guessSlug) : undefined;
+  const answer = getMuscle(answerSlug);
+
+  const cells = FEEDBACK_COLUMNS.map(({ key }): FeedbackCell => {
+    if (!guess || !answer) return { key, value: "?", mark: "grey" };
+    const g = valuesOf(guess, key);
+    return {
+      key,
+      value: g.join(", ") || "?",
+      mark: g.length ? compareSets(g, valuesOf(answer, key)) : "grey",
+    };
+  });
+
+  return {
+    slug: guess?.slug ?? null,
+    label: guess?.name ?? guessText,
+    correct: !!guess && guess.slug === answerSlug,
+    cells,
+  };
+}
@@ -0,0 +1,147 @@
+// lib/history.ts
+import { dayNumber } from "./daily";
+
+export const MAX_DAILY_GUESSES = 6;
+
+export type DailyGuess = {
+  text: string; // what the player typed
+  slug: string | null; // muscle it resolved to, if any
+};
+
+export type DailyPersist = {
+  date: string;
+  slug: string;
+  score: number;
+  attempts: number;
+  completed: boolean;
+  solvedOn?: number; // guess number the Daily was solved on (unset = not solved)
+  guesses?: DailyGuess[]; // in order; rebuilds the feedback grid on reload
+  contextUsed?: boolean; // neighbour context layer was turned on (a hint step)
+  gaveUp?: boolean; // Reveal Answer was used (a loss on guesses leaves it unset)
+};
+
+/** Every Daily played, keyed by NY-local YYYY-MM-DD */
+export type DailyHistory = Record<string, DailyPersist>;
+
+export type DailyStats = {
+  played: number;
+  wins: number;
+  /** 0–100, rounded */
+  winPct: number;
+  currentStreak: number;
+  maxStreak: number;
+  /** distribution[i] = games solved on guess i + 1 */
+  distribution: number[];
+  losses: number;
+};
+
+const HISTORY_KEY = "muscledle.daily.history";
+const LEGACY_KEY = "muscledle.daily.progress"; // single-day record, pre-history
+
+function isRecord(d: unknown): d is DailyPersist {
+  const r = d as DailyPersist;
+  return (
+    !!r &&
+    typeof r.date === "string" &&
+    typeof r.slug === "string" &&
+    typeof r.attempts === "number" &&
+    typeof r.completed === "boolean"
+  );
+}
+
+function saveHistory(h: DailyHistory) {
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(h));
+  } catch {}
+}
+
+/** Load the history, folding in the old single-day record if one is left */
+export function loadHistory(): DailyHistory {
+  let history: DailyHistory = {};
+  try {
+    const raw = localStorage.getItem(HISTORY_KEY);
+    const parsed = raw ? (JSON.parse(raw) as DailyHistory) : {};
+    if (parsed && typeof parsed === "object") {
+      history = Object.fromEntries(
+        Object.entries(parsed).filter(([, d]) => isRecord(d))
+      );
+    }
+  } catch {}
+
+  try {
+    const legacy = localStorage.getItem(LEGACY_KEY);
+    if (legacy) {
+      const d = JSON.parse(legacy) as unknown;
+      if (isRecord(d) && !history[d.date]) history[d.date] = d;
+      saveHistory(history);
+      localStorage.removeItem(LEGACY_KEY);
+    }
+  } catch {}
+
+  return history;
+}
+
+/** The record for one date, if it was played */
+export function loadDaily(date: string): DailyPersist | null {
+  return loadHistory()[date] ?? null;
+}
+
+/** Insert or replace the record for `d.date` */
+export function saveDaily(d: DailyPersist) {
+  const history = loadHistory();
+  history[d.date] = d;
+  saveHistory(history);
+}
+
+function isWin(d: DailyPersist) {
+  return typeof d.solvedOn === "number";
+}
+
+/**
+ * Aggregate stats over finished games. The current streak counts back from
+ * `today`, or from yesterday while today's puzzle is still unfinished.
+ */
+export function getDailyStats(history: DailyHistory, today: string): DailyStats {
+  const finished = Object.values(history)
+    .filter((d) => d.completed)
+    .sort((a, b) => dayNumber(a.date) - dayNumber(b.date));
+
+  const distribution = Array.from({ length: MAX_DAILY_GUESSES }, () => 0);
+  let wins = 0;
+  let maxStreak = 0;
+  let run = 0;
+  let prevDay: number | null = null;
+
+  for (const d of finished) {
+    const day = dayNumber(d.date);
+    if (isWin(d)) {
+      wins++;
+      const slot = Math.min(d.solvedOn ?? 1, MAX_DAILY_GUESSES) - 1;
+      distribution[Math.max(0, slot)]++;
+      run = prevDay !== null && day === prevDay + 1 && run > 0 ? run + 1 : 1;
+    } else {
+      run = 0;
+    }
+    maxStreak = Math.max(maxStreak, run);
+    prevDay = day;
+  }
+
+  const byDay = new Map(finished.map((d) => [dayNumber(d.date), d]));
+  let currentStreak = 0;
+  let day = dayNumber(today);
+  if (!history[today]?.completed) day--;
+  for (let d = byDay.get(day); d && isWin(d); d = byDay.get(--day)) {
+    currentStreak++;
+  }
+
+  const played = finished.length;
+  return {
+    played,
+    wins,
+    winPct: played ? Math.round((wins / played) * 100) : 0,
+    currentStreak,
+    maxStreak,
+    distribution,
+    losses: played - wins,
+  };
+}
@@ -0,0 +1,40 @@
+// lib/manifest.ts
+// The model manifest written by scripts/generate-model-manifest.mjs.
+import manifest from "../public/models/manifest.json";
+
+export type ModelInfo = {
+  slug: string;
+  /** Compressed, content-hashed file (safe to cache forever) */
+  url: string;
+  bytes: number;
+  sourceBytes: number;
+  sourceHash: string;
+  triangles: number;
+  /** World-space bounds of the shown scene, [x, y, z] */
+  bbox: { min: number[]; max: number[] };
+};
+
+export type ModelManifest = { version: 2; models: ModelInfo[] };
+
+const MODELS = (manifest as ModelManifest).models;
+const BY_SLUG = new Map(MODELS.map((m) => [m.slug, m]));
+
+/** Every model in the manifest, skeleton included */
+export function getModels(): ModelInfo[] {
+  return MODELS;
+}
+
+export function getModelInfo(slug: string): ModelInfo | undefined {
+  return BY_SLUG.get(slug);
+}
+
+/** Where to fetch `slug`: the hashed build output, else the raw source */
+export function modelUrl(slug: string): string {
+  return BY_SLUG.get(slug)?.url ?? `/models/${slug}.glb`;
+}
+
+// "/models/c/pectoralis-major.1a2b3c4d.glb" -> "pectoralis-major"
+export function urlToSlug(url: string): string {
+  const base = url.split("/").pop() || "";
+  return base.replace(/\.glb$/i, "").replace(/\.[0-9a-f]{8}$/, "");
+}
@@ -0,0 +1,184 @@
+// lib/match.ts
+import {
+  getMuscles,
+  norm,
+  resolveAlias,
+  spellingsOf,
+  type Muscle,
+} from "./catalog";
+
+/**
+ * - exact: matches the name, slug or an accepted alias
+ * - typo:  within the entry's tolerance, accepted but flagged
+ * - near:  close to the answer but too far off to accept
+ * - wrong: nothing like the answer
+ */
+export type MatchKind = "exact" | "typo" | "near" | "wrong";
+
+export type MatchResult = {
+  kind: MatchKind;
+  /** Edit distance to the closest accepted spelling */
+  distance: number;
+};
+
+/** Levenshtein distance (insert / delete / substitute all cost 1) */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+/** Typos allowed for a spelling of this length: none for short aliases like "lat" */
+function defaultTolerance(spelling: string): number {
+  if (spelling.length < 5) return 0;
+  if (spelling.length < 10) return 1;
+  return 2;
+}
+
+function closest(n: string, entry: Muscle) {
+  let best = { distance: Infinity, tolerance: 0 };
+  for (const s of spellingsOf(entry)) {
+    const distance = editDistance(n, s);
+    if (distance < best.distance) {
+      best = { distance, tolerance: entry.tolerance ?? defaultTolerance(s) };
+    }
+  }
+  return best;
+}
+
+/** Exact match only (no typo tolerance) */
+export function isMatch(input: string, entry: Muscle) {
+  const n = norm(input);
+  if (!n) return false;
+  return spellingsOf(entry).includes(n);
+}
+
+/**
+ * Grade a guess against `entry`. A typo is only accepted if the guess isn't at
+ * least as close to some other muscle, so "rhomboid major" never passes for
+ * "rhomboid minor".
+ */
+export function matchGuess(input: string, entry: Muscle): MatchResult {
+  const n = norm(input);
+  if (!n) return { kind: "wrong", distance: Infinity };
+
+  const { distance, tolerance } = closest(n, entry);
+  if (distance === 0) return { kind: "exact", distance };
+
+  const others = getMuscles().filter((m) => m.slug !== entry.slug);
+  const nearestOther = Math.min(
+    ...others.map((m) => closest(n, m).distance)
+  );
+  if (nearestOther === 0 || nearestOther <= distance) {
+    return { kind: "wrong", distance };
+  }
+
+  if (distance <= tolerance) return { kind: "typo", distance };
+  if (distance <= tolerance + 2) return { kind: "near", distance };
+  return { kind: "wrong", distance };
+}
+
+/** Which muscle the player meant (exact or unambiguous typo), or null */
+export function resolveGuess(input: string): string | null {
+  const exact = resolveAlias(input);
+  if (exact) return exact.slug;
+  const typo = getMuscles().find((m) => matchGuess(input, m).kind === "typo");
+  return typo?.slug ?? null;
+}
+
+export type Suggestion = {
+  slug: string;
+  name: string;
+  /** The accepted alias that matched, when it wasn't the name itself */
+  alias?: string;
+};
+
+/**
+ * Catalog muscles whose name or an accepted alias contains `query`.
+ * Name prefixes rank first, then word prefixes, then any substring.
+ */
+export function suggestMuscles(query: string, limit = 8): Suggestion[] {
+  const q = norm(query);
+  if (!q) return [];
+
+  const rank = (s: string) =>
+    s.startsWith(q) ? 0 : s.includes(` ${q}`) ? 1 : s.includes(q) ? 2 : -1;
+
+  const scored: Array<Suggestion & { score: number }> = [];
+  for (const m of getMuscles()) {
+    let best: (Suggestion & { score: number }) | null = null;
+    for (const spelling of [m.name, ...m.accepted]) {
+      const score = rank(norm(spelling));
+      if (score < 0 || (best && best.score <= score)) continue;
+      best = {
+        slug: m.slug,
+        name: m.name,
+        alias: spelling === m.name ? undefined : spelling,
+        score,
+      };
+    }
+    if (best) scored.push(best);
+  }
+
+  return scored
+    .sort((a, b) => a.score - b.score || a.name.localeCompare(b.name))
+    .slice(0, limit)
+    .map(({ slug, name, alias }) => ({ slug, name, alias }));
+}
+
+/** How alike two names are: share of words in common (0–1) */
+function nameOverlap(a: string, b: string): number {
+  const wa = new Set(norm(a).split(" "));
+  const wb = norm(b).split(" ");
+  const shared = wb.filter((w) => wa.has(w)).length;
+  return shared / Math.max(wa.size, wb.length);
+}
+
+/**
+ * Four shuffled names for a multiple-choice question: the answer plus the
+ * three most confusable muscles — similar names (ECRL vs ECRB) first, then a
+ * shared nerve, then the same region, with a little jitter for variety.
+ */
+export function buildNameChoices(
+  slug: string,
+  rand: () => number = Math.random
+): Suggestion[] {
+  const answer = getMuscles().find((m) => m.slug === slug);
+  if (!answer) return [];
+
+  const nerves = new Set(answer.attributes.nerve);
+  const distractors = getMuscles()
+    .filter((m) => m.slug !== slug)
+    .map((m) => ({
+      m,
+      score:
+        3 * nameOverlap(answer.name, m.name) +
+        (m.attributes.nerve.some((n) => nerves.has(n)) ? 2 : 0) +
+        (m.region === answer.region ? 1 : 0) +
+        rand(),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 3)
+    .map(({ m }) => m);
+
+  const out = [answer, ...distractors].map(({ slug, name }) => ({
+    slug,
+    name,
+  }));
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
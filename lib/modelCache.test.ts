@@ -0,0 +1,76 @@
+import * as THREE from "three";
+import { describe, expect, it, vi } from "vitest";
+import { holdModels, loadModel, loadModels } from "./modelCache";
+
+// downloads in flight, for the staging test
+let active = 0;
+let peak = 0;
+
+// every "download" is a fresh one-mesh scene whose geometry notes its disposal
+vi.mock("three/examples/jsm/loaders/GLTFLoader.js", () => ({
+  GLTFLoader: class {
+    setMeshoptDecoder() {
+      return this;
+    }
+    async loadAsync() {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((r) => setTimeout(r, 0));
+      active--;
+      const geometry = new THREE.BufferGeometry();
+      geometry.addEventListener("dispose", () => {
+        geometry.userData.disposed = true;
+      });
+      const scene = new THREE.Group();
+      scene.add(new THREE.Mesh(geometry));
+      return { scene };
+    }
+  },
+}));
+
+const urls = (prefix: string, n: number) =>
+  Array.from({ length: n }, (_, i) => `/models/${prefix}-${i}.glb`);
+
+const isDisposed = (copy: THREE.Group) =>
+  !!(copy.children[0] as THREE.Mesh).geometry.userData.disposed;
+
+// disposal waits on the evicted load's promise
+const settle = () => new Promise((r) => setTimeout(r, 0));
+
+describe("model cache", () => {
+  it("keeps the geometry of models on screen past the cache size", async () => {
+    // Locate with every region shows 84 muscles at once
+    const shown = urls("shown", 84);
+    const release = holdModels(shown);
+    const copies = await Promise.all(shown.map(loadModel));
+    // then more than a cache-full of other models go through
+    await Promise.all(urls("other", 40).map(loadModel));
+    await settle();
+    expect(copies.filter(isDisposed)).toHaveLength(0);
+
+    // off screen, they're ordinary cache entries and the oldest are dropped
+    release();
+    await settle();
+    expect(copies.filter(isDisposed).length).toBeGreaterThan(0);
+  });
+
+  it("evicts models nobody holds", async () => {
+    const copies = await Promise.all(urls("loose", 30).map(loadModel));
+    await Promise.all(urls("later", 30).map(loadModel));
+    await settle();
+    expect(copies.every(isDisposed)).toBe(true);
+  });
+
+  it("loads a set a few at a time and reports progress", async () => {
+    peak = 0;
+    const progress: number[] = [];
+    const set = urls("region", 20);
+    const release = holdModels(set);
+    const results = await loadModels(set, (done) => progress.push(done));
+    release();
+
+    expect(results.every((r) => r.status === "fulfilled")).toBe(true);
+    expect(peak).toBeLessThanOrEqual(6);
+    expect(progress).toEqual(Array.from({ length: 20 }, (_, i) => i + 1));
+  });
+});
@@ -0,0 +1,141 @@
+// lib/modelCache.ts
+// Parsed GLTF scenes kept in memory, so showing a muscle again (or one that
+// was prefetched) needs no download or parse. The skeleton is pinned; muscles
+// live in a small LRU, except those on screen, which are held until released.
+import * as THREE from "three";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { MeshoptDecoder } from "three/examples/jsm/libs/meshopt_decoder.module.js";
+import { modelUrl } from "./manifest";
+
+export const SKELETON_URL = modelUrl("skeleton");
+
+/** Parsed muscle scenes kept before the least recently used is dropped */
+const MAX_MUSCLES = 24;
+/** Models fetched at once by loadModels */
+const MAX_PARALLEL = 6;
+
+let loader: GLTFLoader | null = null;
+let skeleton: Promise<THREE.Group> | null = null;
+// url -> parse in flight or done; Map order doubles as recency (oldest first)
+const muscles = new Map<string, Promise<THREE.Group>>();
+const ready = new Set<string>();
+// url -> holds from holdModels(); a held model is never evicted
+const held = new Map<string, number>();
+
+function parse(url: string): Promise<THREE.Group> {
+  // build:models writes EXT_meshopt_compression; raw sources load as-is
+  loader ??= new GLTFLoader().setMeshoptDecoder(MeshoptDecoder);
+  return loader.loadAsync(url).then((gltf) => {
+    ready.add(url);
+    return gltf.scene;
+  });
+}
+
+function dispose(scene: THREE.Object3D) {
+  scene.traverse((obj) => {
+    if ((obj as THREE.Mesh).isMesh) (obj as THREE.Mesh).geometry?.dispose();
+  });
+}
+
+function evict() {
+  // oldest first, skipping held models; more held than MAX_MUSCLES (a whole
+  // region on screen) lets the cache run over until they're released
+  for (const [url, scene] of muscles) {
+    if (muscles.size <= MAX_MUSCLES) return;
+    if (held.has(url)) continue;
+    muscles.delete(url);
+    ready.delete(url);
+    scene.then(dispose, () => {});
+  }
+}
+
+function getMuscleScene(url: string): Promise<THREE.Group> {
+  const hit = muscles.get(url);
+  if (hit) {
+    // touch: move to the most recent end
+    muscles.delete(url);
+    muscles.set(url, hit);
+    return hit;
+  }
+  const pending = parse(url).catch((e) => {
+    muscles.delete(url); // let a later call retry
+    throw e;
+  });
+  muscles.set(url, pending);
+  evict();
+  return pending;
+}
+
+/**
+ * Keep `urls` cached while copies of them are on screen: evicting one would
+ * dispose geometry those copies share. Hold before loading, so a long set
+ * can't evict its own first models; call the returned release once they're
+ * gone from the scene.
+ */
+export function holdModels(urls: string[]): () => void {
+  urls.forEach((url) => held.set(url, (held.get(url) ?? 0) + 1));
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    urls.forEach((url) => {
+      const n = (held.get(url) ?? 1) - 1;
+      if (n > 0) held.set(url, n);
+      else held.delete(url);
+    });
+    evict();
+  };
+}
+
+/**
+ * A fresh copy of the model at `url`. Geometry is shared with the cache, so
+ * callers may swap materials but must not dispose geometry.
+ */
+export async function loadModel(url: string): Promise<THREE.Group> {
+  if (url === SKELETON_URL) {
+    skeleton ??= parse(url).catch((e) => {
+      skeleton = null;
+      throw e;
+    });
+    return (await skeleton).clone(true);
+  }
+  return (await getMuscleScene(url)).clone(true);
+}
+
+/**
+ * Fresh copies of many models, at most MAX_PARALLEL downloads at a time so a
+ * whole region doesn't queue every request at once. `onProgress` gets the
+ * number settled so far.
+ */
+export async function loadModels(
+  urls: string[],
+  onProgress?: (done: number) => void
+): Promise<PromiseSettledResult<THREE.Group>[]> {
+  const results: PromiseSettledResult<THREE.Group>[] = new Array(urls.length);
+  let next = 0;
+  let done = 0;
+  const worker = async () => {
+    while (next < urls.length) {
+      const i = next++;
+      results[i] = await loadModel(urls[i]).then(
+        (value) => ({ status: "fulfilled", value }),
+        (reason) => ({ status: "rejected", reason })
+      );
+      onProgress?.(++done);
+    }
+  };
+  const workers = Math.min(MAX_PARALLEL, urls.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/** Download and parse in the background; errors surface on the real load */
+export function prefetchModel(url: string): void {
+  if (url === SKELETON_URL || muscles.has(url)) return;
+  getMuscleScene(url).catch(() => {});
+}
+
+/** True when `url` can be shown without waiting on the network */
+export function isModelReady(url: string): boolean {
+  return ready.has(url);
+}
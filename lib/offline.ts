@@ -0,0 +1,79 @@
+// lib/offline.ts
+// Page-side helpers for the service worker in public/sw.js.
+import { isPlayable } from "./availability";
+import { getModels, type ModelInfo } from "./manifest";
+
+/** Must match MODEL_CACHE in public/sw.js */
+export const MODEL_CACHE = "muscleup-models";
+
+export type OfflineProgress = {
+  done: number;
+  total: number;
+  bytes: number;
+  totalBytes: number;
+};
+
+/** Everything the viewer can show: the skeleton plus every playable muscle */
+function offlineModels(): ModelInfo[] {
+  return getModels().filter((m) => m.slug === "skeleton" || isPlayable(m.slug));
+}
+
+export function offlineSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "caches" in window &&
+    "serviceWorker" in navigator
+  );
+}
+
+export function registerServiceWorker(): void {
+  if (!offlineSupported()) return;
+  navigator.serviceWorker.register("/sw.js").catch((e) => {
+    console.error("Service worker registration failed", e);
+  });
+}
+
+/** How many of the offline models are already in the cache */
+export async function getOfflineProgress(): Promise<OfflineProgress> {
+  const models = offlineModels();
+  const cache = await caches.open(MODEL_CACHE);
+  const cached = new Set(
+    (await cache.keys()).map((r) => new URL(r.url).pathname)
+  );
+  const have = models.filter((m) => cached.has(m.url));
+  return {
+    done: have.length,
+    total: models.length,
+    bytes: have.reduce((n, m) => n + m.bytes, 0),
+    totalBytes: models.reduce((n, m) => n + m.bytes, 0),
+  };
+}
+
+/**
+ * Fetch every model not cached yet, one at a time, reporting progress after
+ * each. Resolves false if any download failed (the rest are still kept).
+ */
+export async function downloadAllModels(
+  onProgress: (p: OfflineProgress) => void
+): Promise<boolean> {
+  const cache = await caches.open(MODEL_CACHE);
+  const progress = await getOfflineProgress();
+  onProgress(progress);
+
+  let ok = true;
+  for (const m of offlineModels()) {
+    if (await cache.match(m.url)) continue;
+    try {
+      const res = await fetch(m.url);
+      if (!res.ok) throw new Error(`${res.status} ${m.url}`);
+      await cache.put(m.url, res);
+      progress.done++;
+      progress.bytes += m.bytes;
+      onProgress({ ...progress });
+    } catch (e) {
+      console.error("Offline download failed", e);
+      ok = false;
+    }
+  }
+  return ok;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import {
+  initialSession,
+  isFinished,
+  sessionReducer,
+  type Session,
+  type SessionAction,
+} from "./session";
+
+const run = (...actions: SessionAction[]): Session =>
+  actions.reduce(sessionReducer, initialSession);
+
+describe("sessionReducer", () => {
+  it("starts guessing when a card is loaded", () => {
+    const s = run({ type: "load", slug: "deltoid" });
+    expect(s).toMatchObject({ phase: "guessing", slug: "deltoid", round: 1 });
+  });
+
+  it("stays idle when there is no card", () => {
+    expect(run({ type: "load", slug: null }).phase).toBe("idle");
+  });
+
+  it("restores a finished card", () => {
+    const s = run({ type: "load", slug: "deltoid", phase: "correct" });
+    expect(isFinished(s)).toBe(true);
+  });
+
+  it("counts misses and marks each wrong pick once", () => {
+    const s = run(
+      { type: "load", slug: "deltoid" },
+      { type: "wrong" },
+      { type: "mark", slug: "teres-major" },
+      { type: "wrong" },
+      { type: "mark", slug: "teres-major" }
+    );
+    expect(s.misses).toBe(2);
+    expect(s.wrongPicks).toEqual(["teres-major"]);
+  });
+
+  it("ignores everything but load once the card is over", () => {
+    const done = run({ type: "load", slug: "deltoid" }, { type: "reveal" });
+    expect(done.phase).toBe("revealed");
+    expect(sessionReducer(done, { type: "correct" })).toBe(done);
+    expect(sessionReducer(done, { type: "wrong" })).toBe(done);
+  });
+
+  it("starts a new round when the same card is loaded again", () => {
+    const s = run(
+      { type: "load", slug: "deltoid" },
+      { type: "wrong" },
+      { type: "fail" },
+      { type: "load", slug: "deltoid" }
+    );
+    expect(s).toMatchObject({ phase: "guessing", misses: 0, round: 2 });
+  });
+});
@@ -0,0 +1,74 @@
+// lib/session.ts
+// The life of one card, shared by every mode:
+//   idle → guessing → correct | revealed | failed
+// Kept free of React and three so the transitions can be tested on their own.
+
+export type Phase = "idle" | "guessing" | "correct" | "revealed" | "failed";
+
+export type Session = {
+  phase: Phase;
+  /** The card's muscle, or an opaque id while a mode hides the answer (Daily) */
+  slug: string | null;
+  /** Wrong answers on this card */
+  misses: number;
+  /** Muscles clicked by mistake, painted in the viewer */
+  wrongPicks: string[];
+  /** Bumped on every load, so the same card shown again is a new round */
+  round: number;
+};
+
+export type SessionAction =
+  /** Show a card; `phase` restores one already finished (e.g. today's Daily) */
+  | { type: "load"; slug: string | null; phase?: Phase }
+  | { type: "wrong" }
+  /** A muscle clicked that isn't the answer (marking only, not a miss) */
+  | { type: "mark"; slug: string }
+  | { type: "correct" }
+  | { type: "reveal" }
+  /** Out of tries, e.g. the last Daily guess or a wrong Facts option */
+  | { type: "fail" };
+
+export const initialSession: Session = {
+  phase: "idle",
+  slug: null,
+  misses: 0,
+  wrongPicks: [],
+  round: 0,
+};
+
+/** True once the card can no longer be answered */
+export function isFinished(s: Session): boolean {
+  return (
+    s.phase === "correct" || s.phase === "revealed" || s.phase === "failed"
+  );
+}
+
+export function sessionReducer(s: Session, a: SessionAction): Session {
+  if (a.type === "load") {
+    return {
+      phase: a.slug ? a.phase ?? "guessing" : "idle",
+      slug: a.slug,
+      misses: 0,
+      wrongPicks: [],
+      round: s.round + 1,
+    };
+  }
+
+  // everything else only applies while the card is open
+  if (s.phase !== "guessing") return s;
+
+  switch (a.type) {
+    case "wrong":
+      return { ...s, misses: s.misses + 1 };
+    case "mark":
+      return s.wrongPicks.includes(a.slug)
+        ? s
+        : { ...s, wrongPicks: [...s.wrongPicks, a.slug] };
+    case "correct":
+      return { ...s, phase: "correct" };
+    case "reveal":
+      return { ...s, phase: "revealed" };
+    case "fail":
+      return { ...s, phase: "failed" };
+  }
+}
@@ -0,0 +1,63 @@
+// lib/share.ts
+import type { FeedbackRow, Mark } from "./feedback";
+
+const MARK_EMOJI: Record<Mark, string> = {
+  green: "🟩",
+  yellow: "🟨",
+  grey: "⬜",
+};
+
+export type ShareInput = {
+  puzzle: number;
+  rows: FeedbackRow[];
+  /** Unset when the Daily was lost or revealed */
+  solvedOn?: number;
+  maxGuesses: number;
+  streak: number;
+  /** Neighbour context was used as a hint */
+  contextUsed?: boolean;
+};
+
+/** Spoiler-free summary: only the colour marks, never names or values */
+export function buildShareText({
+  puzzle,
+  rows,
+  solvedOn,
+  maxGuesses,
+  streak,
+  contextUsed = false,
+}: ShareInput): string {
+  const score = typeof solvedOn === "number" ? solvedOn : "X";
+  const grid = rows.map((r) =>
+    r.cells.map((c) => MARK_EMOJI[c.mark]).join("")
+  );
+  return [
+    `Muscle Up #${puzzle} ${score}/${maxGuesses}${contextUsed ? " 🧭" : ""}`,
+    `🔥 Streak: ${streak}`,
+    "",
+    ...grid,
+  ]
+    .join("\n")
+    .trimEnd();
+}
+
+/** Web Share API where available, else the clipboard */
+export async function shareText(
+  text: string
+): Promise<"shared" | "copied" | "failed"> {
+  try {
+    if (typeof navigator.share === "function") {
+      await navigator.share({ text });
+      return "shared";
+    }
+  } catch (e) {
+    // user closed the share sheet: don't fall through to the clipboard
+    if (e instanceof DOMException && e.name === "AbortError") return "failed";
+  }
+  try {
+    await navigator.clipboard.writeText(text);
+    return "copied";
+  } catch {
+    return "failed";
+  }
+}
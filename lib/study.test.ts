@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as availability from "./availability";
+import {
+  advanceStudy,
+  currentStudySlug,
+  loadStudy,
+  reviewStudy,
+  seededShuffle,
+  setStudyRegion,
+  type StudyProgress,
+} from "./study";
+
+// wrapped so a test can hand the deck builder an empty region
+vi.mock("./availability", async (importOriginal) => {
+  const actual = await importOriginal<typeof availability>();
+  return { ...actual, getPlayableByRegion: vi.fn(actual.getPlayableByRegion) };
+});
+
+const STORAGE_KEY = "muscledle.study.v3";
+
+const slugsOf = (region: "all" | "upper" | "lower") =>
+  availability.getPlayableByRegion(region).map((m) => m.slug);
+
+function saved(): StudyProgress {
+  return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+}
+
+function store(p: StudyProgress) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(p));
+}
+
+describe("seededShuffle", () => {
+  const deck = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+  it("gives the same order for the same seed", () => {
+    // the Daily schedule depends on this: changing the PRNG reshuffles it
+    expect(seededShuffle(deck, 20250901)).toEqual([
+      9, 7, 2, 3, 4, 6, 5, 0, 1, 8,
+    ]);
+    expect(seededShuffle(deck, 20250901)).toEqual(
+      seededShuffle(deck, 20250901)
+    );
+  });
+
+  it("returns a permutation and leaves the input alone", () => {
+    const out = seededShuffle(deck, 7);
+    expect([...out].sort((a, b) => a - b)).toEqual(deck);
+    expect(deck).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it("gives different orders for different seeds", () => {
+    expect(seededShuffle(deck, 1)).not.toEqual(seededShuffle(deck, 2));
+  });
+
+  it("copes with empty and single-item lists", () => {
+    expect(seededShuffle([], 1)).toEqual([]);
+    expect(seededShuffle(["a"], 1)).toEqual(["a"]);
+  });
+});
+
+describe("loadStudy", () => {
+  it("starts an 'all' deck when nothing is saved", () => {
+    const p = loadStudy();
+    expect(p.settings.region).toBe("all");
+    expect([...p.order].sort()).toEqual([...slugsOf("all")].sort());
+    expect(p.current).toBe(p.order[0]);
+    expect(saved()).toEqual(p);
+  });
+
+  it("keeps valid saved progress", () => {
+    const p = setStudyRegion("lower");
+    expect(loadStudy()).toEqual(p);
+  });
+
+  it.each([
+    ["not JSON", "{oops"],
+    ["null", "null"],
+    ["an array", "[]"],
+    ["a missing order", JSON.stringify({ current: null, cards: {} })],
+    [
+      "an unknown region",
+      JSON.stringify({
+        order: [],
+        current: null,
+        cards: {},
+        completed: false,
+        settings: { region: "head" },
+      }),
+    ],
+    [
+      "a non-string current card",
+      JSON.stringify({
+        order: [],
+        current: 3,
+        cards: {},
+        completed: false,
+        settings: { region: "all" },
+      }),
+    ],
+  ])("replaces corrupt data (%s) with a fresh deck", (_, raw) => {
+    localStorage.setItem(STORAGE_KEY, raw);
+    const p = loadStudy();
+    expect(p.settings.region).toBe("all");
+    expect(p.order.length).toBe(slugsOf("all").length);
+    expect(saved()).toEqual(p);
+  });
+});
+
+describe("setStudyRegion", () => {
+  it("leaves progress alone when the region is unchanged", () => {
+    const first = setStudyRegion("upper");
+    reviewStudy(first.current!, "good");
+    const again = setStudyRegion("upper");
+    expect(again.order).toEqual(first.order);
+    expect(again.cards[first.current!]).toBeDefined();
+  });
+
+  it("rebuilds the deck for a new region but keeps review history", () => {
+    const upper = setStudyRegion("upper");
+    reviewStudy(upper.current!, "good");
+    const lower = setStudyRegion("lower");
+    expect([...lower.order].sort()).toEqual([...slugsOf("lower")].sort());
+    expect(lower.cards[upper.current!]).toBeDefined();
+  });
+
+  it("finishes straight away when the region has nothing to show", () => {
+    loadStudy();
+    vi.mocked(availability.getPlayableByRegion).mockReturnValueOnce([]);
+    const p = setStudyRegion("upper");
+    expect(p).toMatchObject({ order: [], current: null, completed: true });
+    expect(currentStudySlug()).toBeNull();
+  });
+});
+
+describe("advanceStudy", () => {
+  const base = (order: string[], current: string | null): StudyProgress => ({
+    order,
+    current,
+    cards: {},
+    completed: false,
+    settings: { region: "upper" },
+  });
+
+  beforeEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("moves on to the next new card", () => {
+    store(base(["a", "b", "c"], "a"));
+    expect(advanceStudy().current).toBe("b");
+  });
+
+  it("keeps showing the last card while it is still new", () => {
+    store(base(["a"], "a"));
+    const p = advanceStudy();
+    expect(p).toMatchObject({ current: "a", completed: false });
+  });
+
+  it("completes once the last card has been learned", () => {
+    store(base(["a", "b"], "b"));
+    reviewStudy("a", "good");
+    reviewStudy("b", "good");
+    const p = advanceStudy();
+    expect(p).toMatchObject({ current: null, completed: true });
+    expect(advanceStudy()).toMatchObject({ current: null, completed: true });
+  });
+
+  it("brings a missed card back when nothing else is left", () => {
+    store(base(["a", "b"], "b"));
+    reviewStudy("a", "good");
+    reviewStudy("b", "again");
+    expect(advanceStudy()).toMatchObject({ current: "b", completed: false });
+  });
+
+  it("stays finished on an empty deck", () => {
+    store({ ...base([], null), completed: true });
+    expect(advanceStudy()).toMatchObject({ current: null, completed: true });
+    expect(currentStudySlug()).toBeNull();
+  });
+
+  it("shows a completed deck's cards again once they fall due", () => {
+    vi.useFakeTimers({ now: new Date("2025-10-01T12:00:00Z") });
+    store(base(["a"], "a"));
+    reviewStudy("a", "good");
+    expect(advanceStudy().completed).toBe(true);
+    vi.setSystemTime(new Date("2025-10-03T12:00:00Z"));
+    expect(loadStudy()).toMatchObject({ current: "a", completed: false });
+  });
+});
@@ -1,14 +1,32 @@
 // lib/study.ts
-import muscles from "@/data/muscles.json";
+import { getPlayableByRegion } from "./availability";
+import type { MuscleRegion } from "./catalog";
 
-export type Region = "all" | "upper" | "lower";
+export type Region = "all" | MuscleRegion;
+
+/** How a single showing of a card went */
+export type Grade = "again" | "good";
+
+/** SM-2 style review state for one slug */
+export type CardReview = {
+  /** Ease factor; grows the interval on each successful review (min 1.3) */
+  ease: number;
+  /** Interval in days; 0 while the card is still being learned */
+  interval: number;
+  /** Consecutive successful reviews since the last lapse */
+  reps: number;
+  /** Epoch ms after which the card is due again */
+  due: number;
+};
 
 export type StudyProgress = {
-  /** The shuffled deck of slugs to study (filtered by region) */
+  /** The shuffled deck of slugs to study (filtered by region); new cards are introduced in this order */
   order: string[];
-  /** Current position in `order` */
-  index: number;
-  /** Whether we've reached the end of the deck */
+  /** Slug currently being shown, or null when nothing is left to study */
+  current: string | null;
+  /** Review state per slug; slugs without an entry are still new */
+  cards: Record<string, CardReview>;
+  /** Whether every card has been learned and nothing is due right now */
   completed: boolean;
   /** Settings that influence which deck is built */
   settings: {
@@ -16,21 +34,27 @@ export type StudyProgress = {
   };
 };
 
-const STORAGE_KEY = "muscledle.study.v2"; // bump key to avoid mixing old data
+/** Counts shown in the Study chip */
+export type StudyCounts = {
+  /** Review cards due by the end of today */
+  due: number;
+  /** Cards never shown yet */
+  new: number;
+  /** Cards missed recently and still being relearned */
+  learning: number;
+};
 
-type MuscleLike = { slug: string; region?: string };
+const STORAGE_KEY = "muscledle.study.v3"; // bump key to avoid mixing old data
 
-function getSlugsByRegion(region: Region): string[] {
-  const list = muscles as unknown as MuscleLike[];
-  if (region === "all") return list.map((m) => m.slug);
+const MIN_EASE = 1.3;
+const START_EASE = 2.5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** A missed card comes back after this delay (or sooner if nothing else is left) */
+const RELEARN_MS = 60 * 1000;
 
-  const want = region; // "upper" | "lower"
-  return list
-    .filter((m) => {
-      const r = (m.region || "all").toLowerCase();
-      return r === want; // include only matching region
-    })
-    .map((m) => m.slug);
+/** Slugs of muscles that can actually be shown, filtered by region */
+function getSlugsByRegion(region: Region): string[] {
+  return getPlayableByRegion(region).map((m) => m.slug);
 }
 
 /** Fisher–Yates shuffle with seeded PRNG (Mulberry32) */
@@ -44,7 +68,7 @@ function mulberry32(seed: number): () => number {
   };
 }
 
-function seededShuffle<T>(arr: T[], seed: number): T[] {
+export function seededShuffle<T>(arr: T[], seed: number): T[] {
   const rand = mulberry32(seed);
   const out = arr.slice();
   for (let i = out.length - 1; i > 0; i--) {
@@ -71,7 +95,9 @@ function safeLoad(): StudyProgress | null {
     if (
       !parsed ||
       !Array.isArray(parsed.order) ||
-      typeof parsed.index !== "number" ||
+      (parsed.current !== null && typeof parsed.current !== "string") ||
+      !parsed.cards ||
+      typeof parsed.cards !== "object" ||
       typeof parsed.completed !== "boolean" ||
       !parsed.settings ||
       (parsed.settings.region !== "all" &&
@@ -102,15 +128,85 @@ function buildDeck(region: Region): string[] {
   return seededShuffle(slugs, seed);
 }
 
+/** Apply one SM-2 review to a card (a missing card is treated as new) */
+export function scheduleCard(
+  card: CardReview | undefined,
+  grade: Grade,
+  now: number = Date.now()
+): CardReview {
+  const prev: CardReview = card ?? {
+    ease: START_EASE,
+    interval: 0,
+    reps: 0,
+    due: now,
+  };
+
+  if (grade === "again") {
+    // lapse: drop back into learning and show it again shortly
+    return {
+      ease: Math.max(MIN_EASE, prev.ease - 0.2),
+      interval: 0,
+      reps: 0,
+      due: now + RELEARN_MS,
+    };
+  }
+
+  const reps = prev.reps + 1;
+  const interval =
+    reps === 1 ? 1 : reps === 2 ? 6 : Math.round(prev.interval * prev.ease);
+  return {
+    ease: prev.ease,
+    interval,
+    reps,
+    due: now + interval * DAY_MS,
+  };
+}
+
+/**
+ * Pick the slug to show next: due cards first (earliest first), then new
+ * cards in deck order, then learning cards early if nothing else is left.
+ * `skip` is only returned when it is the sole candidate.
+ */
+function pickNext(
+  order: string[],
+  cards: Record<string, CardReview>,
+  now: number,
+  skip: string | null = null
+): string | null {
+  const pick = (allowSkip: boolean): string | null => {
+    const usable = order.filter((s) => allowSkip || s !== skip);
+
+    const due = usable
+      .filter((s) => cards[s] && cards[s].due <= now)
+      .sort((a, b) => cards[a].due - cards[b].due);
+    if (due.length) return due[0];
+
+    const fresh = usable.find((s) => !cards[s]);
+    if (fresh) return fresh;
+
+    const learning = usable
+      .filter((s) => cards[s] && cards[s].interval === 0)
+      .sort((a, b) => cards[a].due - cards[b].due);
+    return learning[0] ?? null;
+  };
+  return pick(false) ?? pick(true);
+}
+
+function withNext(
+  base: Omit<StudyProgress, "current" | "completed">,
+  skip: string | null = null
+): StudyProgress {
+  const current = pickNext(base.order, base.cards, Date.now(), skip);
+  return { ...base, current, completed: current === null };
+}
+
 /** Create a fresh study plan (defaults to "all"; pass "upper"/"lower" to filter) */
 export function resetStudy(region: Region = "all"): StudyProgress {
-  const order = buildDeck(region);
-  const fresh: StudyProgress = {
-    order,
-    index: 0,
-    completed: order.length === 0,
+  const fresh = withNext({
+    order: buildDeck(region),
+    cards: {},
     settings: { region },
-  };
+  });
   safeSave(fresh);
   return fresh;
 }
@@ -118,36 +214,53 @@ export function resetStudy(region: Region = "all"): StudyProgress {
 /** Load study state (or initialize one if missing) */
 export function loadStudy(): StudyProgress {
   const existing = safeLoad();
-  if (existing) return existing;
-  return resetStudy("all");
+  if (!existing) return resetStudy("all");
+  if (!existing.completed) return existing;
+
+  // cards may have come due since the deck was last finished
+  const refreshed = withNext(existing);
+  if (!refreshed.completed) safeSave(refreshed);
+  return refreshed;
 }
 
-/** Change the active region and rebuild the deck starting at the first card */
+/** Change the active region and rebuild the deck; review history is kept */
 export function setStudyRegion(region: Region): StudyProgress {
   // if the region didn't change, leave current progress as-is
   const cur = loadStudy();
   if (cur.settings.region === region) return cur;
 
-  const order = buildDeck(region);
-  const updated: StudyProgress = {
-    order,
-    index: 0,
-    completed: order.length === 0,
+  const updated = withNext({
+    order: buildDeck(region),
+    cards: cur.cards,
     settings: { region },
-  };
+  });
   safeSave(updated);
   return updated;
 }
 
-/** Advance to the next slug; marks completed at the end */
+/** Move on to the next card to study; marks completed when nothing is left */
 export function advanceStudy(): StudyProgress {
   const cur = loadStudy();
-  if (cur.completed) return cur;
-  const nextIndex = cur.index + 1;
+  const updated = withNext(cur, cur.current);
+  safeSave(updated);
+  return updated;
+}
+
+/** The card `advanceStudy` would show after the current one, if any */
+export function peekNextStudySlug(p: StudyProgress): string | null {
+  const next = pickNext(p.order, p.cards, Date.now(), p.current);
+  return next === p.current ? null : next;
+}
+
+/** Record how the current showing of `slug` went (does not advance) */
+export function reviewStudy(slug: string, grade: Grade): StudyProgress {
+  const cur = loadStudy();
   const updated: StudyProgress = {
     ...cur,
-    index: Math.min(nextIndex, cur.order.length - 1),
-    completed: nextIndex >= cur.order.length,
+    cards: {
+      ...cur.cards,
+      [slug]: scheduleCard(cur.cards[slug], grade),
+    },
   };
   safeSave(updated);
   return updated;
@@ -156,7 +269,24 @@ export function advanceStudy(): StudyProgress {
 /** Current slug in study flow, or null if none/finished */
 export function currentStudySlug(): string | null {
   const cur = loadStudy();
-  if (cur.order.length === 0) return null;
   if (cur.completed) return null;
-  return cur.order[cur.index] ?? null;
+  return cur.current;
+}
+
+/** Due / new / learning counts for the active deck */
+export function getStudyCounts(
+  p: StudyProgress,
+  now: number = Date.now()
+): StudyCounts {
+  const endOfDay = new Date(now);
+  endOfDay.setHours(23, 59, 59, 999);
+
+  const counts: StudyCounts = { due: 0, new: 0, learning: 0 };
+  for (const slug of p.order) {
+    const card = p.cards[slug];
+    if (!card) counts.new++;
+    else if (card.interval === 0) counts.learning++;
+    else if (card.due <= endOfDay.getTime()) counts.due++;
+  }
+  return counts;
 }
@@ -0,0 +1,130 @@
+import catalog from "@/data/muscles.json";
+import pool from "@/data/daily-pool.json";
+import { describe, expect, it } from "vitest";
+import { getUnavailable, isPlayable } from "./availability";
+import { getModels } from "./manifest";
+import {
+  validateCatalog,
+  validatePool,
+  type RawEntry,
+} from "./validateCatalog";
+
+const base = catalog.find((m) => m.slug === "deltoid")!;
+
+/** A valid entry with its own slug, name and alias */
+const entry = (slug: string, extra: Partial<RawEntry> = {}) => ({
+  ...base,
+  slug,
+  name: slug.replace(/-/g, " "),
+  accepted: [`${slug} muscle`],
+  ...extra,
+});
+
+const models = new Set(["a", "b", "rhomboid-minor", "rhomboid-major"]);
+const check = (entries: RawEntry[], modelless: string[] = []) =>
+  validateCatalog(entries, models, new Set(modelless));
+
+describe("validateCatalog", () => {
+  it("passes the catalog as it stands", () => {
+    const modelless = getUnavailable("all").map((m) => m.slug);
+    const slugs = getModels().map((m) => m.slug);
+    expect(
+      validateCatalog(catalog, new Set(slugs), new Set(modelless))
+    ).toEqual([]);
+  });
+
+  it("names the entry with a schema problem", () => {
+    const errors = check([entry("a"), { ...entry("b"), name: undefined }]);
+    expect(errors.length).toBeGreaterThan(0);
+    expect(errors.every((e) => e.startsWith("[#1 b] "))).toBe(true);
+  });
+
+  it("rejects a duplicate slug", () => {
+    expect(check([entry("a"), entry("a", { name: "other" })])).toContain(
+      "[#1 a] duplicate slug (also entry #0)"
+    );
+  });
+
+  it("needs a model unless the muscle is known to have none", () => {
+    expect(check([entry("c")])).toEqual([
+      "[#0 c] no model at public/models/c.glb",
+    ]);
+    expect(check([entry("c")], ["c"])).toEqual([]);
+  });
+
+  it("rejects a spelling two muscles share", () => {
+    const errors = check([entry("a"), entry("b", { accepted: ["a muscle"] })]);
+    expect(errors).toEqual(['[#1 b] "a muscle" clashes with [#0 a]']);
+  });
+
+  it("lets the rhomboids share their group name, and only them", () => {
+    const minor = entry("rhomboid-minor", { accepted: ["rhomboid"] });
+    const major = entry("rhomboid-major", { accepted: ["rhomboid"] });
+    expect(check([minor, major])).toEqual([]);
+
+    const other = entry("a", { accepted: ["rhomboid"] });
+    expect(check([minor, other])).toEqual([
+      '[#1 a] "rhomboid" clashes with [#0 rhomboid-minor]',
+    ]);
+  });
+
+  it("checks that neighbours are other catalog muscles", () => {
+    const errors = check([
+      entry("a", { neighbors: ["a"] }),
+      entry("b", { neighbors: ["nope"] }),
+    ]);
+    expect(errors).toEqual([
+      "[#0 a] lists itself as a neighbor",
+      '[#1 b] unknown neighbor "nope"',
+    ]);
+  });
+});
+
+describe("validatePool", () => {
+  const playable = (slug: string) => slug !== "c";
+  const entries = [entry("a"), entry("b"), entry("c")];
+
+  it("passes the pool as it stands", () => {
+    expect(validatePool(pool, catalog, isPlayable)).toEqual([]);
+  });
+
+  it("wants batches of slugs keyed by date", () => {
+    expect(validatePool(["a"], entries, playable)).toEqual([
+      "[daily-pool] expected batches of slugs keyed by date",
+    ]);
+    expect(
+      validatePool({ soon: ["a", "b"], "2025-09-02": "c" }, entries, playable)
+    ).toEqual([
+      '[daily-pool] batch "soon" must be a YYYY-MM-DD date',
+      "[daily-pool 2025-09-02] expected an array of slugs",
+    ]);
+  });
+
+  it("lists each muscle once", () => {
+    const errors = validatePool(
+      { "2025-09-01": ["a", "b"], "2025-10-01": ["b"] },
+      entries,
+      playable
+    );
+    expect(errors).toEqual([
+      '[daily-pool 2025-10-01] "b" already joined on 2025-09-01',
+    ]);
+  });
+
+  it("rejects a muscle that can't be shown", () => {
+    const errors = validatePool(
+      { "2025-09-01": ["a", "b", "c"] },
+      entries,
+      playable
+    );
+    expect(errors).toEqual([
+      '[daily-pool 2025-09-01] "c" can\'t be shown: leave it out until it has a working model',
+    ]);
+  });
+
+  it("names a playable muscle left out of the pool", () => {
+    expect(validatePool({ "2025-09-01": ["a"] }, entries, playable)).toEqual([
+      "[#1 b] not in the Daily pool: add it to daily-pool.json as a new batch",
+    ]);
+  });
+});
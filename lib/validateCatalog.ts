@@ -0,0 +1,141 @@
+// lib/validateCatalog.ts
+// The checks behind `npm run validate:catalog` (scripts/validate-catalog.ts),
+// kept apart from the file reading so they can be tested.
+import { entryProblems, norm } from "./catalog";
+
+export type RawEntry = {
+  slug?: unknown;
+  name?: unknown;
+  accepted?: unknown;
+  neighbors?: unknown;
+};
+
+/**
+ * Group names accepted for every muscle in the group, e.g. "rhomboid" for
+ * both rhomboids. Any other spelling two entries share is a clash.
+ */
+const SHARED_ALIASES: Record<string, string[]> = {
+  rhomboid: ["rhomboid-minor", "rhomboid-major"],
+};
+
+const isText = (v: unknown): v is string =>
+  typeof v === "string" && v.trim().length > 0;
+
+/** True when `spelling` is a group name shared by both slugs on purpose */
+function isSharedAlias(spelling: string, a: unknown, b: unknown): boolean {
+  const group = SHARED_ALIASES[spelling] ?? [];
+  return group.includes(String(a)) && group.includes(String(b));
+}
+
+/**
+ * Every problem found, each prefixed with the entry it belongs to. Muscles
+ * the availability registry already reports as unavailable ("no 3D model
+ * yet") stay in the catalog without a model.
+ */
+export function validateCatalog(
+  entries: RawEntry[],
+  models: Set<string>,
+  modelless: Set<string>
+): string[] {
+  const errors: string[] = [];
+  const label = (i: number) => `[#${i} ${String(entries[i].slug ?? "?")}]`;
+
+  // normalized spelling -> index of the entry that owns it
+  const owners = new Map<string, number>();
+  const seenSlugs = new Map<string, number>();
+
+  entries.forEach((m, i) => {
+    const fail = (msg: string) => errors.push(`${label(i)} ${msg}`);
+
+    // shape: name, accepted, region, oiia, attributes… (shared with lib/catalog)
+    entryProblems(m).forEach(fail);
+
+    if (isText(m.slug)) {
+      if (seenSlugs.has(m.slug)) {
+        fail(`duplicate slug (also entry #${seenSlugs.get(m.slug)})`);
+      } else {
+        seenSlugs.set(m.slug, i);
+      }
+      if (!models.has(m.slug) && !modelless.has(m.slug)) {
+        fail(`no model at public/models/${m.slug}.glb`);
+      }
+    }
+
+    // name, slug and aliases must not collide with another muscle's
+    const spellings = new Set(
+      [m.name, m.slug, ...(Array.isArray(m.accepted) ? m.accepted : [])]
+        .filter(isText)
+        .map(norm)
+    );
+    for (const s of spellings) {
+      const owner = owners.get(s);
+      if (owner !== undefined) {
+        if (isSharedAlias(s, m.slug, entries[owner].slug)) continue;
+        fail(`"${s}" clashes with ${label(owner)}`);
+      } else {
+        owners.set(s, i);
+      }
+    }
+  });
+
+  // neighbours must point at other catalog muscles
+  entries.forEach((m, i) => {
+    if (!Array.isArray(m.neighbors)) return;
+    for (const n of m.neighbors) {
+      if (n === m.slug) errors.push(`${label(i)} lists itself as a neighbor`);
+      else if (isText(n) && !seenSlugs.has(n)) {
+        errors.push(`${label(i)} unknown neighbor "${n}"`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * The Daily pool is append-only (see lib/dailySchedule.ts): each muscle is
+ * listed once, and only muscles that can be shown, so every day of a cycle
+ * has its own. A playable muscle missing from it would never be a Daily.
+ */
+export function validatePool(
+  pool: unknown,
+  entries: RawEntry[],
+  playable: (slug: string) => boolean
+): string[] {
+  if (!pool || typeof pool !== "object" || Array.isArray(pool)) {
+    return ["[daily-pool] expected batches of slugs keyed by date"];
+  }
+  const errors: string[] = [];
+  const listed = new Map<string, string>();
+  for (const [from, slugs] of Object.entries(pool)) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(from)) {
+      errors.push(`[daily-pool] batch "${from}" must be a YYYY-MM-DD date`);
+    }
+    if (!Array.isArray(slugs) || !slugs.every(isText)) {
+      errors.push(`[daily-pool ${from}] expected an array of slugs`);
+      continue;
+    }
+    for (const slug of slugs) {
+      if (listed.has(slug)) {
+        errors.push(
+          `[daily-pool ${from}] "${slug}" already joined on ${listed.get(slug)}`
+        );
+      } else {
+        listed.set(slug, from);
+      }
+      if (!playable(slug)) {
+        errors.push(
+          `[daily-pool ${from}] "${slug}" can't be shown: leave it out until it has a working model`
+        );
+      }
+    }
+  }
+  entries.forEach((m, i) => {
+    if (isText(m.slug) && playable(m.slug) && !listed.has(m.slug)) {
+      errors.push(
+        `[#${i} ${m.slug}] not in the Daily pool: add it to daily-pool.json as a new batch`
+      );
+    }
+  });
+  return errors;
+}
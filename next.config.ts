@@ -1,11 +1,18 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // the Daily model route re-encodes with these; left to Node, not bundled
+  serverExternalPackages: [
+    "@gltf-transform/core",
+    "@gltf-transform/extensions",
+    "@gltf-transform/functions",
+    "meshoptimizer",
+  ],
   async headers() {
     return [
       {
-        // apply to everything under /models/
-        source: "/models/:path*",
+        // compressed models carry a content hash in the name, so never go stale
+        source: "/models/c/:path*",
         headers: [
           {
             key: "Cache-Control",
@@ -13,6 +20,11 @@ const nextConfig: NextConfig = {
           },
         ],
       },
+      {
+        // the service worker must be re-checked so updates roll out
+        source: "/sw.js",
+        headers: [{ key: "Cache-Control", value: "no-cache" }],
+      },
       {
         // manifest.json can change more often
         source: "/models/manifest.json",
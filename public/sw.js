@@ -0,0 +1,106 @@
+// public/sw.js
+// Offline support: the app shell (HTML + Next's hashed chunks, which bundle
+// the catalog) and the model manifest are precached on install; compressed
+// models are cached the first time they are viewed.
+// The Daily isn't covered: /api/daily* is left to the network, since every
+// guess is graded on the server and the answer never reaches the page.
+// Cache names are shared with lib/offline.ts.
+const SHELL_CACHE = "muscleup-shell-v1";
+const MODEL_CACHE = "muscleup-models";
+const MANIFEST_URL = "/models/manifest.json";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((k) => k !== SHELL_CACHE && k !== MODEL_CACHE)
+            .map((k) => caches.delete(k))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  const res = await fetch("/", { cache: "no-cache" });
+  if (!res.ok) return;
+  const html = await res.clone().text();
+  await cache.put("/", res);
+
+  // every chunk the page references, including ones named in inline payloads
+  const assets = new Set(html.match(/\/_next\/static\/[^"'\\\s)]+/g) ?? []);
+  await Promise.allSettled(
+    [...assets, MANIFEST_URL, "/manifest.webmanifest", "/icon.svg"].map((url) =>
+      cache.add(url)
+    )
+  );
+}
+
+/** Serve from cache, else fetch and keep a copy */
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const hit = await cache.match(request);
+  if (hit) return hit;
+  const res = await fetch(request);
+  if (res.ok) cache.put(request, res.clone());
+  return res;
+}
+
+/** Fresh copy when online, the cached one when not */
+async function networkFirst(request, cacheKey) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const res = await fetch(request);
+    if (res.ok) await cache.put(cacheKey, res.clone());
+    return res;
+  } catch (err) {
+    const hit = await cache.match(cacheKey);
+    if (hit) return hit;
+    throw err;
+  }
+}
+
+/** Drop cached models the current manifest no longer lists (old hashes) */
+async function pruneModels(manifestResponse) {
+  try {
+    const { models } = await manifestResponse.json();
+    const keep = new Set(models.map((m) => m.url));
+    const cache = await caches.open(MODEL_CACHE);
+    for (const req of await cache.keys()) {
+      if (!keep.has(new URL(req.url).pathname)) await cache.delete(req);
+    }
+  } catch {
+    // a bad manifest shouldn't take the cache down with it
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith("/models/c/")) {
+    // content-hashed, so a cached copy is never stale
+    event.respondWith(cacheFirst(request, MODEL_CACHE));
+  } else if (url.pathname === MANIFEST_URL) {
+    event.respondWith(
+      networkFirst(request, MANIFEST_URL).then((res) => {
+        event.waitUntil(pruneModels(res.clone()));
+        return res;
+      })
+    );
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  } else if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, "/"));
+  }
+});
@@ -1,7 +1,15 @@
 // scripts/generate-model-manifest.mjs
+// Compresses every source .glb in /public/models with meshopt, writes it under
+// a content-hashed name in /public/models/c, and records per-model stats in
+// manifest.json. Unchanged sources are skipped on later runs.
 import { promises as fs } from "fs";
+import { createHash } from "crypto";
 import path from "path";
 import { fileURLToPath } from "url";
+import { Logger, NodeIO } from "@gltf-transform/core";
+import { ALL_EXTENSIONS } from "@gltf-transform/extensions";
+import { dedup, getBounds, meshopt, prune } from "@gltf-transform/functions";
+import { MeshoptDecoder, MeshoptEncoder } from "meshoptimizer";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -9,9 +17,57 @@ const __dirname = path.dirname(__filename);
 // Resolve project root (.. from /scripts) and target directory
 const rootDir = path.resolve(__dirname, "..");
 const MODELS_DIR = path.join(rootDir, "public", "models");
+const OUT_DIR = path.join(MODELS_DIR, "c");
+const MANIFEST = path.join(MODELS_DIR, "manifest.json");
+
+const hash = (buf) => createHash("sha256").update(buf).digest("hex");
+
+async function readManifest() {
+  try {
+    const parsed = JSON.parse(await fs.readFile(MANIFEST, "utf-8"));
+    // v1 manifests were a bare list of paths: nothing to reuse
+    return Array.isArray(parsed?.models) ? parsed.models : [];
+  } catch {
+    return [];
+  }
+}
+
+async function exists(file) {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Triangle count and world-space bounds of the scene the viewer shows (the
+ * default one), measured before quantization.
+ */
+function measure(doc) {
+  const root = doc.getRoot();
+  const scene = root.getDefaultScene() ?? root.listScenes()[0];
+
+  let triangles = 0;
+  scene.traverse((node) => {
+    for (const prim of node.getMesh()?.listPrimitives() ?? []) {
+      if (prim.getMode() !== 4) continue; // TRIANGLES
+      const indices = prim.getIndices();
+      const position = prim.getAttribute("POSITION");
+      triangles += Math.floor(
+        (indices ? indices.getCount() : position?.getCount() ?? 0) / 3
+      );
+    }
+  });
+
+  const { min, max } = getBounds(scene);
+  const round = (v) => v.map((n) => Math.round(n * 1e4) / 1e4);
+  return { triangles, bbox: { min: round(min), max: round(max) } };
+}
 
 async function run() {
-  console.log("Scanning models in:", MODELS_DIR);
+  console.log("Compressing models in:", MODELS_DIR);
 
   // Ensure the directory exists (nice error if it doesn't)
   try {
@@ -28,18 +84,85 @@ async function run() {
     }
     throw err;
   }
+  await fs.mkdir(OUT_DIR, { recursive: true });
 
-  const entries = await fs.readdir(MODELS_DIR, { withFileTypes: true });
+  await MeshoptEncoder.ready;
+  await MeshoptDecoder.ready;
+  const io = new NodeIO()
+    .setLogger(new Logger(Logger.Verbosity.WARN))
+    .registerExtensions(ALL_EXTENSIONS)
+    .registerDependencies({
+      "meshopt.encoder": MeshoptEncoder,
+      "meshopt.decoder": MeshoptDecoder,
+    });
 
-  const files = entries
+  const previous = new Map((await readManifest()).map((m) => [m.slug, m]));
+  const entries = await fs.readdir(MODELS_DIR, { withFileTypes: true });
+  const sources = entries
     .filter((e) => e.isFile() && e.name.toLowerCase().endsWith(".glb"))
-    // public assets are served from site root at /models/*
-    .map((e) => `/models/${e.name}`)
+    .map((e) => e.name)
     .sort((a, b) => a.localeCompare(b));
 
-  const outPath = path.join(MODELS_DIR, "manifest.json");
-  await fs.writeFile(outPath, JSON.stringify(files, null, 2));
-  console.log(`Wrote ${files.length} entries to ${outPath}`);
+  const models = [];
+  let compressed = 0;
+  for (const name of sources) {
+    const slug = name.replace(/\.glb$/i, "");
+    const source = await fs.readFile(path.join(MODELS_DIR, name));
+    const sourceHash = hash(source);
+
+    const prev = previous.get(slug);
+    if (
+      prev?.sourceHash === sourceHash &&
+      (await exists(path.join(rootDir, "public", prev.url)))
+    ) {
+      models.push(prev);
+      continue;
+    }
+
+    const doc = await io.readBinary(source);
+    const stats = measure(doc);
+    // GLTFLoader only shows the default scene; prune() then drops the rest
+    const root = doc.getRoot();
+    const shown = root.getDefaultScene() ?? root.listScenes()[0];
+    root.listScenes().forEach((s) => s !== shown && s.dispose());
+    await doc.transform(dedup(), prune(), meshopt({ encoder: MeshoptEncoder }));
+    const out = await io.writeBinary(doc);
+
+    // public assets are served from site root at /models/*
+    const file = `${slug}.${hash(out).slice(0, 8)}.glb`;
+    await fs.writeFile(path.join(OUT_DIR, file), out);
+    compressed++;
+
+    models.push({
+      slug,
+      url: `/models/c/${file}`,
+      bytes: out.length,
+      sourceBytes: source.length,
+      sourceHash,
+      ...stats,
+    });
+    console.log(
+      `  ${slug}: ${(source.length / 1024).toFixed(0)} KB -> ${(
+        out.length / 1024
+      ).toFixed(0)} KB`
+    );
+  }
+
+  // drop outputs no longer referenced (old hashes, removed models)
+  const keep = new Set(models.map((m) => path.basename(m.url)));
+  for (const f of await fs.readdir(OUT_DIR)) {
+    if (!keep.has(f)) await fs.rm(path.join(OUT_DIR, f));
+  }
+
+  await fs.writeFile(
+    MANIFEST,
+    JSON.stringify({ version: 2, models }, null, 2) + "\n"
+  );
+  console.log(
+    `Wrote ${models.length} entries to ${MANIFEST} (${compressed} compressed, ${
+      models.length - compressed
+    } unchanged)`
+  );
 }
 
 run().catch((err) => {
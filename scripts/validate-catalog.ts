@@ -0,0 +1,49 @@
+// scripts/validate-catalog.ts
+import { promises as fs } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { getUnavailable, isPlayable } from "../lib/availability";
+import { validateCatalog, validatePool } from "../lib/validateCatalog";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Resolve project root (.. from /scripts)
+const rootDir = path.resolve(__dirname, "..");
+const CATALOG = path.join(rootDir, "src", "data", "muscles.json");
+const DAILY_POOL = path.join(rootDir, "src", "data", "daily-pool.json");
+const MODELS_DIR = path.join(rootDir, "public", "models");
+
+async function run() {
+  console.log("Validating catalog:", CATALOG);
+
+  const entries = JSON.parse(await fs.readFile(CATALOG, "utf-8"));
+  if (!Array.isArray(entries)) {
+    throw new Error(`Expected an array of muscles in ${CATALOG}`);
+  }
+
+  const models = new Set(
+    (await fs.readdir(MODELS_DIR))
+      .filter((f) => f.toLowerCase().endsWith(".glb"))
+      .map((f) => f.replace(/\.glb$/i, ""))
+  );
+
+  const modelless = new Set(getUnavailable("all").map((m) => m.slug));
+
+  const pool = JSON.parse(await fs.readFile(DAILY_POOL, "utf-8"));
+
+  const errors = [
+    ...validateCatalog(entries, models, modelless),
+    ...validatePool(pool, entries, isPlayable),
+  ];
+  if (errors.length) {
+    errors.forEach((e) => console.error(`✖ ${e}`));
+    throw new Error(`${errors.length} problem(s) in the catalog`);
+  }
+  console.log(`✅ ${entries.length} entries OK`);
+}
+
+run().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
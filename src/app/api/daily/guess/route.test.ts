@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { DAILY_TZ, dateKey } from "../../../../../lib/daily";
+import type { DailyState } from "../../../../../lib/dailyPuzzle";
+import { POST } from "./route";
+
+const post = (body: string) =>
+  POST(
+    new Request("http://localhost/api/daily/guess", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+    })
+  );
+
+describe("POST /api/daily/guess", () => {
+  it("grades today's game without the answer while it's open", async () => {
+    const res = await post(JSON.stringify({ guesses: ["not a muscle"] }));
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Cache-Control")).toBe("no-store");
+    const state = (await res.json()) as DailyState;
+    expect(state).toMatchObject({ date: dateKey(DAILY_TZ), status: "playing" });
+    expect(state.rows).toHaveLength(1);
+    expect(state.answer).toBeUndefined();
+  });
+
+  it("sends the answer once the player gives up", async () => {
+    const res = await post(JSON.stringify({ guesses: [], gaveUp: true }));
+    const state = (await res.json()) as DailyState;
+    expect(state.status).toBe("lost");
+    expect(state.answer?.slug).toBeTruthy();
+  });
+
+  it("refuses a body that isn't JSON", async () => {
+    expect((await post("{guesses")).status).toBe(400);
+  });
+
+  it("refuses tomorrow's puzzle", async () => {
+    const res = await post(JSON.stringify({ date: "2999-01-01", guesses: [] }));
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,27 @@
+// app/api/daily/guess/route.ts
+// POST /api/daily/guess: grade a game so far (see DailyGuessRequest). The
+// client sends every guess each time, so the server needs no storage.
+import { NextResponse } from "next/server";
+import { DAILY_TZ, dateKey } from "../../../../../lib/daily";
+import { dailyState, parseGuessRequest } from "../../../../../lib/dailyPuzzle";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+
+  const game = parseGuessRequest(body, dateKey(DAILY_TZ));
+  if (!game) {
+    return NextResponse.json(
+      { error: "Invalid guess request" },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(dailyState(game.date, game), {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
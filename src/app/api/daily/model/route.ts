@@ -0,0 +1,33 @@
+// app/api/daily/model/route.ts
+// GET /api/daily/model?date=YYYY-MM-DD: the puzzle's model under a URL that
+// doesn't name the muscle, re-encoded for the date so its bytes and accessor
+// bounds don't match the static copy (see lib/dailyModel.ts).
+import { DAILY_TZ, dateKey } from "../../../../../lib/daily";
+import { readDailyModel } from "../../../../../lib/dailyModel";
+import {
+  dailyAnswerSlug,
+  isPlayableDate,
+} from "../../../../../lib/dailyPuzzle";
+
+export async function GET(request: Request) {
+  const date = new URL(request.url).searchParams.get("date");
+  if (!isPlayableDate(date, dateKey(DAILY_TZ))) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  let model: Uint8Array<ArrayBuffer>;
+  try {
+    model = await readDailyModel(date, dailyAnswerSlug(date));
+  } catch (e) {
+    console.error("Failed to read the Daily model", e);
+    return new Response("Model unavailable", { status: 500 });
+  }
+  return new Response(model, {
+    headers: {
+      "Content-Type": "model/gltf-binary",
+      // one URL per date, so a day's model never changes; no-transform keeps
+      // compression from squeezing out the padding and showing the real size
+      "Cache-Control": "private, max-age=86400, no-transform",
+    },
+  });
+}
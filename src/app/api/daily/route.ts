@@ -0,0 +1,13 @@
+// app/api/daily/route.ts
+// GET /api/daily[?context=1]: today's puzzle before any guess, without the answer.
+import { NextResponse } from "next/server";
+import { DAILY_TZ, dateKey } from "../../../../lib/daily";
+import { dailyState } from "../../../../lib/dailyPuzzle";
+
+export function GET(request: Request) {
+  const context = new URL(request.url).searchParams.get("context") === "1";
+  const state = dailyState(dateKey(DAILY_TZ), { guesses: [], context });
+  return NextResponse.json(state, {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
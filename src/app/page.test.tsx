@@ -0,0 +1,282 @@
+import { act, render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getPlayableMuscles } from "../../lib/availability";
+import { getMuscle } from "../../lib/catalog";
+import { DAILY_TZ, dateKey } from "../../lib/daily";
+import type { DailyGame } from "../../lib/dailyPuzzle";
+import { getDailyMuscleSlug } from "../../lib/dailySchedule";
+import { loadDaily, saveDaily } from "../../lib/history";
+import { loadStudy } from "../../lib/study";
+import * as dailyRoute from "./api/daily/route";
+import * as guessRoute from "./api/daily/guess/route";
+import MusclePage from "./page";
+
+// no WebGL in jsdom: see components/__mocks__/MuscleViewer.tsx
+vi.mock("@/components/MuscleViewer");
+
+// the Daily API, answered by its route handlers in-process
+beforeEach(() => {
+  vi.stubGlobal("fetch", async (input: string, init?: RequestInit) => {
+    const req = new Request(new URL(input, "http://localhost"), init);
+    const { pathname } = new URL(req.url);
+    if (pathname === "/api/daily") return dailyRoute.GET(req);
+    if (pathname === "/api/daily/guess") return guessRoute.POST(req);
+    throw new Error(`Unexpected fetch: ${pathname}`);
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+/** Bodies POSTed to /api/daily/guess from now on */
+function recordGuessPosts(): DailyGame[] {
+  const sent: DailyGame[] = [];
+  const handle = globalThis.fetch;
+  vi.stubGlobal("fetch", (input: string, init?: RequestInit) => {
+    if (input.endsWith("/api/daily/guess")) {
+      sent.push(JSON.parse(String(init?.body)));
+    }
+    return handle(input, init);
+  });
+  return sent;
+}
+
+const viewer = () => screen.getByTestId("muscle-viewer");
+const shownSlug = () => viewer().getAttribute("data-slug") ?? "";
+
+async function answer(slug: string) {
+  const user = userEvent.setup();
+  await user.type(
+    screen.getByRole("combobox", { name: "Muscle name" }),
+    getMuscle(slug)!.name
+  );
+  await user.click(screen.getByRole("button", { name: "Submit Answer" }));
+}
+
+/** Daily only takes names picked from the suggestions */
+async function answerFromList(slug: string) {
+  const user = userEvent.setup();
+  const name = getMuscle(slug)!.name;
+  // looked up each time: the panel is replaced when the card starts
+  const box = () =>
+    screen.getByRole<HTMLInputElement>("combobox", { name: "Muscle name" });
+  await waitFor(() => expect(box().disabled).toBe(false));
+  await user.clear(box());
+  await user.type(box(), name);
+  await user.click(
+    screen.getByRole("option", { name: new RegExp(`^${name}`) })
+  );
+  await user.click(screen.getByRole("button", { name: "Submit Answer" }));
+}
+
+describe("MusclePage", () => {
+  it("shows the Study card and moves on after an answer", async () => {
+    render(<MusclePage />);
+    const first = loadStudy().current!;
+    await waitFor(() => expect(shownSlug()).toBe(first));
+
+    await answer(first);
+    expect(screen.getByText(`Correct! ${getMuscle(first)!.name}`)).toBeTruthy();
+
+    await userEvent.click(
+      screen.getByRole("button", { name: /Next in Study/ })
+    );
+    await waitFor(() => expect(shownSlug()).not.toBe(first));
+    expect(shownSlug()).toBe(loadStudy().current);
+  });
+
+  it("reveals the answer on request", async () => {
+    render(<MusclePage />);
+    await waitFor(() => expect(shownSlug()).not.toBe(""));
+    const slug = shownSlug();
+
+    await userEvent.click(
+      screen.getByRole("button", { name: /Reveal Answer/ })
+    );
+    expect(
+      screen.getByText(`Answer: ${getMuscle(slug)!.name}`, { selector: "span" })
+    ).toBeTruthy();
+    expect(
+      (
+        screen.getByRole("button", {
+          name: /Reveal Answer/,
+        }) as HTMLButtonElement
+      ).disabled
+    ).toBe(true);
+  });
+
+  it("plays the muscle the viewer picks in Free mode", async () => {
+    render(<MusclePage />);
+    await waitFor(() => expect(shownSlug()).not.toBe(""));
+    const before = shownSlug();
+
+    await userEvent.click(screen.getByRole("button", { name: "Free" }));
+    await waitFor(() => expect(shownSlug()).not.toBe(before));
+
+    await answer(shownSlug());
+    expect(screen.getByText(/Correct!/)).toBeTruthy();
+  });
+
+  it("marks wrong and right clicks in Locate mode", async () => {
+    render(<MusclePage />);
+    await userEvent.click(screen.getByRole("button", { name: "Locate" }));
+
+    // the mock viewer shows the target, and every muscle as a button
+    await waitFor(() =>
+      expect(screen.getAllByRole("button", { name: shownSlug() })).toHaveLength(
+        1
+      )
+    );
+    const target = shownSlug();
+    const buttons = Array.from(viewer().querySelectorAll("button"));
+    const wrong = buttons.find((b) => b.textContent !== target)!;
+
+    await userEvent.click(wrong);
+    expect(wrong.getAttribute("data-mark")).toBe("wrong");
+
+    const right = buttons.find((b) => b.textContent === target)!;
+    await userEvent.click(right);
+    expect(right.getAttribute("data-mark")).toBe("correct");
+    expect(screen.getByText("Found: 1/2")).toBeTruthy();
+  });
+
+  it("plays the Daily through the API", async () => {
+    const today = dateKey(DAILY_TZ);
+    const answerSlug = getDailyMuscleSlug(DAILY_TZ);
+    const wrong = getPlayableMuscles().find((m) => m.slug !== answerSlug)!;
+
+    render(<MusclePage />);
+    await userEvent.click(screen.getByRole("button", { name: "Daily" }));
+    await waitFor(() =>
+      expect(viewer().getAttribute("data-model")).toBe(
+        `/api/daily/model?date=${today}`
+      )
+    );
+
+    await answerFromList(wrong.slug);
+    expect(await screen.findByText("Guesses: 1/6")).toBeTruthy();
+    expect(screen.getByText("Your Guesses")).toBeTruthy();
+    expect(screen.getByText("Action")).toBeTruthy();
+    // still secret after a miss
+    expect(loadDaily(today)?.slug).toBe("");
+
+    await answerFromList(answerSlug);
+    expect(
+      await screen.findByText(`Correct! ${getMuscle(answerSlug)!.name}`)
+    ).toBeTruthy();
+    expect(loadDaily(today)).toMatchObject({
+      slug: answerSlug,
+      completed: true,
+      solvedOn: 2,
+    });
+  });
+
+  it("resumes a Daily lost on guesses without claiming a give-up", async () => {
+    const today = dateKey(DAILY_TZ);
+    const answerSlug = getDailyMuscleSlug(DAILY_TZ);
+    const misses = getPlayableMuscles()
+      .filter((m) => m.slug !== answerSlug)
+      .slice(0, 6);
+    saveDaily({
+      date: today,
+      slug: answerSlug,
+      score: 0,
+      attempts: 6,
+      completed: true,
+      guesses: misses.map((m) => ({ text: m.name, slug: m.slug })),
+    });
+    const sent = recordGuessPosts();
+
+    render(<MusclePage />);
+    await userEvent.click(screen.getByRole("button", { name: "Daily" }));
+    await waitFor(() => expect(sent).toHaveLength(1));
+    expect(sent[0].gaveUp).toBe(false);
+    expect(sent[0].guesses).toHaveLength(6);
+  });
+
+  it("leaves the Daily alone until it is opened", async () => {
+    const today = dateKey(DAILY_TZ);
+    const fetched: string[] = [];
+    const handle = globalThis.fetch;
+    vi.stubGlobal("fetch", (input: string, init?: RequestInit) => {
+      fetched.push(input);
+      return handle(input, init);
+    });
+
+    render(<MusclePage />);
+    await waitFor(() => expect(shownSlug()).not.toBe(""));
+    expect(fetched).toEqual([]);
+    expect(loadDaily(today)).toBeNull();
+
+    await userEvent.click(screen.getByRole("button", { name: "Daily" }));
+    await waitFor(() => expect(loadDaily(today)).not.toBeNull());
+    expect(fetched).toContain("/api/daily");
+  });
+
+  it("keeps a newer guess over an older reply", async () => {
+    const answerSlug = getDailyMuscleSlug(DAILY_TZ);
+    const wrong = getPlayableMuscles().find((m) => m.slug !== answerSlug)!;
+    // the Context request's reply is held back until after a guess is graded
+    let release = () => {};
+    const held = new Promise<void>((r) => (release = r));
+    const handle = globalThis.fetch;
+    vi.stubGlobal("fetch", async (input: string, init?: RequestInit) => {
+      const res = await handle(input, init);
+      const game = init?.body && JSON.parse(String(init.body));
+      if (game?.context && game.guesses.length === 0) await held;
+      return res;
+    });
+
+    render(<MusclePage />);
+    await userEvent.click(screen.getByRole("button", { name: "Daily" }));
+    await waitFor(() =>
+      expect(viewer().getAttribute("data-model")).toContain("/api/daily/model")
+    );
+    await userEvent.click(screen.getByRole("button", { name: /Context/ }));
+    await answerFromList(wrong.slug);
+    expect(await screen.findByText("Your Guesses")).toBeTruthy();
+
+    await act(async () => {
+      release();
+      await new Promise((r) => setTimeout(r, 0));
+    });
+    expect(screen.getByText("Your Guesses")).toBeTruthy();
+    expect(screen.getByText("Action")).toBeTruthy();
+  });
+
+  it("doesn't give up the Daily on a stray R", async () => {
+    const today = dateKey(DAILY_TZ);
+    const sent = recordGuessPosts();
+
+    render(<MusclePage />);
+    await userEvent.click(screen.getByRole("button", { name: "Daily" }));
+    await waitFor(() => expect(loadDaily(today)).not.toBeNull());
+    // focus off the input, e.g. after clicking the model
+    viewer().focus();
+    await userEvent.keyboard("r");
+    expect(sent).toHaveLength(0);
+    expect(loadDaily(today)?.completed).toBe(false);
+    expect(
+      screen
+        .getByRole("button", { name: /Reveal Answer/ })
+        .hasAttribute("aria-keyshortcuts")
+    ).toBe(false);
+  });
+
+  it("remembers that the Daily answer was revealed", async () => {
+    const today = dateKey(DAILY_TZ);
+    const sent = recordGuessPosts();
+
+    render(<MusclePage />);
+    await userEvent.click(screen.getByRole("button", { name: "Daily" }));
+    await waitFor(() => expect(loadDaily(today)).not.toBeNull());
+    await userEvent.click(
+      await screen.findByRole("button", { name: /Reveal Answer/ })
+    );
+    await waitFor(() => expect(sent).toHaveLength(1));
+    expect(sent[0].gaveUp).toBe(true);
+    expect(loadDaily(today)).toMatchObject({ completed: true, gaveUp: true });
+  });
+});
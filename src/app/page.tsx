@@ -1,153 +1,124 @@
 // app/muscle/page.tsx
 "use client";
 
-import { useRef, useState, useEffect } from "react";
-import MuscleViewer, { MuscleViewerHandle } from "@/components/MuscleViewer";
-import GuessPanel, { GuessPanelHandle } from "@/components/GuessPanel";
-import { getDailyMuscleSlug } from "../../lib/daily";
 import {
-  loadStudy,
-  resetStudy,
-  advanceStudy,
-  currentStudySlug,
-  setStudyRegion,
-  type StudyProgress,
-  type Region,
-} from "../../lib/study";
-
-type Mode = "daily" | "study" | "free";
-
-// NY-local YYYY-MM-DD
-function nyDateKey() {
-  const now = new Date();
-  // quick-and-clean: use Intl in the client (we're in "use client")
-  const parts = new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/New_York",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).formatToParts(now);
-  const get = (t: string) => parts.find((p) => p.type === t)?.value ?? "";
-  return `${get("year")}-${get("month")}-${get("day")}`; // YYYY-MM-DD
-}
-
-// 1) Put this near the top (after constants), to define your fixed lists.
-type MissingItem = { muscle: string; reason: string };
-
-const MISSING_BY_REGION: Record<Region, MissingItem[]> = {
-  all: [], // auto-filled from upper+lower below in getMissingForRegion
-  upper: [
-    // EXAMPLES — change these to your real cases or leave empty
-    // { muscle: "Subclavius", reason: "model is corrupted in this build" },
-  ],
-  lower: [
-    { muscle: "Gluteus maximus", reason: "model is buggy" },
-    // Add more:
-    // { muscle: "Gluteus medius", reason: "not exported in current model set" },
-    // { muscle: "Piriformis", reason: "UV seam breaks cause render issues" },
-  ],
-};
-
-function getMissingForRegion(region: Region): MissingItem[] {
-  if (region === "all") {
-    // Union of upper+lower (deduped by muscle name)
-    const map = new Map<string, MissingItem>();
-    [...MISSING_BY_REGION.upper, ...MISSING_BY_REGION.lower].forEach((m) =>
-      map.set(m.muscle, m)
-    );
-    return Array.from(map.values());
-  }
-  return MISSING_BY_REGION[region] ?? [];
-}
-
-type Stats = { score: number; attempts: number };
-
-type DailyPersist = {
-  date: string;
-  slug: string;
-  score: number;
-  attempts: number;
-  completed: boolean;
-  solvedOn?: number; // ← ADD
-};
-
-const DAILY_KEY = "muscledle.daily.progress";
-
-function loadDaily(): DailyPersist | null {
-  try {
-    const raw = localStorage.getItem(DAILY_KEY);
-    if (!raw) return null;
-    return JSON.parse(raw) as DailyPersist;
-  } catch {
-    return null;
-  }
-}
-function saveDaily(d: DailyPersist) {
-  try {
-    localStorage.setItem(DAILY_KEY, JSON.stringify(d));
-  } catch {}
-}
+  useRef,
+  useState,
+  useEffect,
+  useMemo,
+  useReducer,
+  type CSSProperties,
+} from "react";
+import MuscleViewer, {
+  MuscleViewerHandle,
+  type PickMark,
+} from "@/components/MuscleViewer";
+import GuessPanel, {
+  GuessPanelHandle,
+  type AnswerMode,
+} from "@/components/GuessPanel";
+import OfflineDownload from "@/components/OfflineDownload";
+import DisplayPanel from "@/components/DisplayPanel";
+import SheetHandle from "@/components/SheetHandle";
+import { MODES, MODE_INFO, useModeControllers, type Mode } from "@/modes";
+import type { CardPick, ContextControl } from "@/modes/types";
+import { getNeighbors } from "../../lib/catalog";
+import { registerServiceWorker } from "../../lib/offline";
+import {
+  cssColor,
+  DEFAULT_DISPLAY,
+  loadDisplay,
+  PALETTES,
+  saveDisplay,
+  type DisplaySettings,
+} from "../../lib/display";
+import { initialSession, isFinished, sessionReducer } from "../../lib/session";
+import { loadStudy, type Region } from "../../lib/study";
+
+const ANSWER_MODE_KEY = "muscledle.answerMode";
+const CONTEXT_KEY = "muscledle.context";
 
 export default function MusclePage() {
   const viewerRef = useRef<MuscleViewerHandle>(null);
   const guessRef = useRef<GuessPanelHandle>(null);
+  const nextButtonRef = useRef<HTMLButtonElement>(null);
+  // phones: viewer stacked over a bottom sheet, header details folded away
+  const mainRef = useRef<HTMLDivElement>(null);
+  const [viewerPct, setViewerPct] = useState(55);
+  const [headerOpen, setHeaderOpen] = useState(false);
 
   const [mode, setMode] = useState<Mode>("study");
-  const [currentSlug, setCurrentSlug] = useState<string | null>(null);
-
-  // separate stats
-  const [studyStats, setStudyStats] = useState<Stats>({
-    score: 0,
-    attempts: 0,
-  });
-  const [dailyStats, setDailyStats] = useState<DailyPersist | null>(null);
-
-  // Which region the Study deck should use
+  // the card on screen and how far it has got (see lib/session.ts)
+  const [session, dispatch] = useReducer(sessionReducer, initialSession);
+  // random cards are picked by the viewer and reported through onChange
+  const [source, setSource] = useState<"slug" | "random">("slug");
+  // read by onChange, which fires before the state above re-renders
+  const sourceRef = useRef(source);
+
+  // Which region Study and Locate use
   const [region, setRegion] = useState<Region>("all");
-  // 2) Add these pieces of state inside your component (near other useState hooks).
-  const [showMissing, setShowMissing] = useState(true);
+  // no card is chosen before the saved region is known, or Study would
+  // rebuild its deck for the default region first
+  const [regionLoaded, setRegionLoaded] = useState(false);
 
-  // Re-open the notice whenever the region changes (so users see the right list)
+  // Study & Free can be answered by typing or from four options
+  const [answerPref, setAnswerPref] = useState<AnswerMode>("typed");
   useEffect(() => {
-    setShowMissing(true);
-  }, [region]);
-
-  const [study, setStudy] = useState<StudyProgress>({
-    order: [],
-    index: 0,
-    completed: false,
-    settings: { region }, // ← required by StudyProgress
-  });
-  const [freeStats, setFreeStats] = useState<Stats>({ score: 0, attempts: 0 });
-
-  // reveal lock (per muscle display)
-  const [canReveal, setCanReveal] = useState(true);
+    try {
+      if (localStorage.getItem(ANSWER_MODE_KEY) === "choice") {
+        setAnswerPref("choice");
+      }
+    } catch {}
+  }, []);
+  const changeAnswerMode = (next: AnswerMode) => {
+    setAnswerPref(next);
+    try {
+      localStorage.setItem(ANSWER_MODE_KEY, next);
+    } catch {}
+  };
+  const answerMode: AnswerMode = MODE_INFO[mode].choice ? answerPref : "typed";
 
+  // neighbour context layer; Daily keeps its own since it's a hint there
+  const [contextPref, setContextPref] = useState(false);
   useEffect(() => {
-    if (mode !== "study") return;
-    const p = setStudyRegion(region); // rebuild based on region
-    setStudy(p);
-    const slug = currentStudySlug(); // start at first
-    setCurrentSlug(slug);
-    if (slug) viewerRef.current?.setBySlug(slug);
-    setCanReveal(true);
-  }, [region, mode]);
-
-  // reset reveal on slug change
-  useEffect(() => {
-    setCanReveal(true);
-  }, [currentSlug]);
+    try {
+      setContextPref(localStorage.getItem(CONTEXT_KEY) === "on");
+    } catch {}
+  }, []);
+  const sharedContext: ContextControl = {
+    shown: contextPref,
+    toggle: () => {
+      const next = !contextPref;
+      setContextPref(next);
+      try {
+        localStorage.setItem(CONTEXT_KEY, next ? "on" : "off");
+      } catch {}
+    },
+    label: "Context",
+    title: "Show neighbouring muscles faintly",
+  };
 
-  // ---------- initialize study + daily ----------
+  // viewer colours / skeleton / wireframe, shared with the Legend
+  const [display, setDisplay] = useState<DisplaySettings>(DEFAULT_DISPLAY);
   useEffect(() => {
-    setStudy(loadStudy());
+    setDisplay(loadDisplay());
   }, []);
+  const changeDisplay = (next: DisplaySettings) => {
+    setDisplay(next);
+    saveDisplay(next);
+  };
+  const palette = PALETTES[display.palette];
 
   // keep your mounted flag
   const [mounted, setMounted] = useState(false);
   useEffect(() => setMounted(true), []);
 
-  // NEW: after mount, load the real region from localStorage-backed study
+  // offline support (dev chunks aren't stable enough to cache)
+  useEffect(() => {
+    if (process.env.NODE_ENV === "production") registerServiceWorker();
+  }, []);
+
+  // after mount, load the real region from localStorage-backed study
   useEffect(() => {
     try {
       const s = loadStudy();
@@ -157,489 +128,439 @@ export default function MusclePage() {
     } catch {
       // ignore
     }
+    setRegionLoaded(true);
   }, []);
-  const missingList = mounted ? getMissingForRegion(region) : [];
 
-  useEffect(() => {
-    // ensure daily state (for today's date)
-    const date = nyDateKey();
-    const todaysSlug = getDailyMuscleSlug("America/New_York");
-    const existing = loadDaily();
-
-    if (!existing || existing.date !== date || existing.slug !== todaysSlug) {
-      const fresh: DailyPersist = {
-        date,
-        slug: todaysSlug,
-        score: 0,
-        attempts: 0,
-        completed: false,
-        solvedOn: undefined, // ← ADD
-      };
-
-      setDailyStats(fresh);
-      saveDaily(fresh);
-    } else {
-      setDailyStats(existing);
+  const show = (pick: CardPick) => {
+    sourceRef.current = pick === "random" ? "random" : "slug";
+    setSource(sourceRef.current);
+    if (pick === "random") {
+      viewerRef.current?.next();
+      return;
     }
-  }, []);
+    dispatch({ type: "load", slug: pick.slug, phase: pick.phase });
+    if (pick.slug) viewerRef.current?.setBySlug(pick.slug);
+  };
 
-  // ---------- respond to mode changes ----------
+  const controllers = useModeControllers(
+    {
+      session,
+      dispatch,
+      show,
+      region,
+      answerMode,
+      mounted,
+      viewerRef,
+      guessRef,
+      sharedContext,
+    },
+    mode
+  );
+  const controller = controllers[mode];
+
+  // ---------- first card of a mode (or after its region etc. changes) ----------
   useEffect(() => {
-    if (mode === "daily") {
-      // lock viewer to today's daily slug
-      const slug = dailyStats?.slug ?? getDailyMuscleSlug("America/New_York");
-      setCurrentSlug(slug);
-      viewerRef.current?.setBySlug(slug);
-    } else if (mode === "study") {
-      // Ensure a study deck exists for the current region
-      const s = loadStudy();
-      if (!s || s.settings.region !== region) {
-        setStudyRegion(region);
-      }
-      const slug = currentStudySlug();
-      if (slug) {
-        setCurrentSlug(slug);
-        viewerRef.current?.setBySlug(slug);
-      } else {
-        const p = resetStudy(region);
-        setStudy(p);
-        const s2 = p.order[p.index] ?? null;
-        setCurrentSlug(s2);
-        if (s2) viewerRef.current?.setBySlug(s2);
-      }
-    } else {
-      // free = random
-      viewerRef.current?.next();
-    }
-  }, [mode, dailyStats?.slug]);
+    if (regionLoaded) show(controller.start());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mode, controller.startKey, regionLoaded]);
 
-  // --- derived flags ---
-  const isAtLastStudyCard =
-    mode === "study" &&
-    (study.completed ||
-      study.order.length === 0 ||
-      study.index >= Math.max(0, study.order.length - 1));
+  const handleViewerChange = (_path: string, slug: string) => {
+    // the viewer reports every model it shows; only random picks are news
+    if (sourceRef.current === "random") dispatch({ type: "load", slug });
+  };
 
-  const nextMuscle = () => {
-    if (mode === "daily") return; // no skipping
-
-    if (mode === "study") {
-      if (isAtLastStudyCard) return; // already at last; do nothing
-      const updated = advanceStudy();
-      setStudy(updated);
-      const slug = currentStudySlug();
-      if (slug) {
-        setCurrentSlug(slug);
-        viewerRef.current?.setBySlug(slug);
-      }
-      return;
-    }
+  // the guess panel shows the answer once the card is over
+  useEffect(() => {
+    if (isFinished(session)) guessRef.current?.reveal();
+  }, [session]);
+
+  const pickable = controller.pickable ?? null;
 
-    // free mode
-    viewerRef.current?.next();
+  const handlePick = (slug: string) => {
+    if (!session.slug || session.phase !== "guessing") return;
+    if (slug !== session.slug) dispatch({ type: "mark", slug });
+    controller.onPick?.(slug);
   };
+  // the listener outlives renders; the latest handlePick sees this card
+  const handlePickRef = useRef(handlePick);
+  handlePickRef.current = handlePick;
+  useEffect(
+    () => viewerRef.current?.onPick((slug) => handlePickRef.current(slug)),
+    []
+  );
+
+  // wrong clicks in amber; the answer in green once solved or revealed
+  const pickMarks = useMemo(() => {
+    const out: Record<string, PickMark> = {};
+    session.wrongPicks.forEach((s) => (out[s] = "wrong"));
+    if (isFinished(session) && session.slug) out[session.slug] = "correct";
+    return out;
+  }, [session]);
+
+  const context = controller.context;
+  const showContext = !!context?.shown;
+  const modeNeighbors = controller.contextSlugs;
+  const contextSlugs = useMemo(() => {
+    if (!showContext) return null;
+    if (modeNeighbors !== undefined) return modeNeighbors;
+    return session.slug ? getNeighbors(session.slug).map((m) => m.slug) : null;
+  }, [showContext, modeNeighbors, session.slug]);
+
+  // after the panel re-renders for the new card (its box is disabled until then)
+  const focusGuessSoon = () =>
+    requestAnimationFrame(() => guessRef.current?.focus());
+  // the guess box locks once answered, so hand focus to "Next"
+  const focusNextSoon = () =>
+    requestAnimationFrame(() => nextButtonRef.current?.focus());
+
+  const nextMuscle = () => {
+    if (!controller.next || controller.nextBlocked) return;
+    show(controller.next());
+    focusGuessSoon();
+  };
+
+  const canReveal =
+    !!session.slug && session.phase === "guessing" && !controller.locked;
 
   // ---- reveal handler (counts as attempt, and locks Daily if used) ----
   const reveal = () => {
     if (!canReveal) return;
-    if (mode === "study") {
-      setStudyStats((prev) => ({ ...prev, attempts: prev.attempts + 1 }));
-    } else if (mode === "daily" && dailyStats) {
-      const updated: DailyPersist = {
-        ...dailyStats,
-        completed: true,
-        attempts: dailyStats.attempts + 1,
-        // ❌ remove this line:
-        // solvedOn: (dailyStats.attempts ?? 0) + 1,
-      };
-      setDailyStats(updated);
-      saveDaily(updated);
-    }
-
-    guessRef.current?.reveal();
-    setCanReveal(false);
+    dispatch({ type: "reveal" });
+    controller.onReveal?.();
+    focusNextSoon();
   };
 
-  const handleViewerChange = (_path: string, slug: string) => {
-    // keep slug in sync in Free mode
-    setCurrentSlug(slug);
+  // ---- keyboard shortcuts (skipped while typing in a field) ----
+  const onKeyRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  onKeyRef.current = (e) => {
+    if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+    if (controller.overlay) return; // a modal owns the keyboard
+    const el = e.target as HTMLElement;
+    const inField =
+      el.tagName === "INPUT" ||
+      el.tagName === "TEXTAREA" ||
+      el.tagName === "SELECT" ||
+      el.isContentEditable;
+    if (inField) {
+      if (e.key === "Escape") {
+        e.preventDefault();
+        viewerRef.current?.focus();
+      }
+      return;
+    }
+    const viewer = viewerRef.current;
+    switch (e.key) {
+      case "ArrowLeft":
+      case "ArrowRight":
+      case "ArrowUp":
+      case "ArrowDown": {
+        e.preventDefault();
+        const step = e.shiftKey ? 45 : 15;
+        if (e.key === "ArrowLeft") viewer?.orbit(step, 0);
+        if (e.key === "ArrowRight") viewer?.orbit(-step, 0);
+        if (e.key === "ArrowUp") viewer?.orbit(0, step);
+        if (e.key === "ArrowDown") viewer?.orbit(0, -step);
+        break;
+      }
+      case "+":
+      case "=":
+        viewer?.zoom(1.25);
+        break;
+      case "-":
+      case "_":
+        viewer?.zoom(0.8);
+        break;
+      case "n":
+      case "N":
+        nextMuscle();
+        break;
+      case "r":
+      case "R":
+        // giving up ends today's Daily for good: the button only
+        if (mode !== "daily") reveal();
+        break;
+      case "/":
+        e.preventDefault();
+        guessRef.current?.focus();
+        break;
+      case "Enter":
+        // buttons and links keep their own Enter
+        if (el.tagName === "BUTTON" || el.tagName === "A") return;
+        e.preventDefault();
+        guessRef.current?.submit();
+        break;
+    }
   };
-
-  // -------- display numbers depend on mode --------
-  const displayScore =
-    mode === "study" ? studyStats.score : mode === "free" ? freeStats.score : 0;
-
-  const displayAttempts =
-    mode === "study"
-      ? studyStats.attempts
-      : mode === "free"
-      ? freeStats.attempts
-      : dailyStats?.attempts ?? 0;
-
-  // daily lock (can only be done once per day)
-  // TIGHTEN daily locking by attempts (6) in your derived flags
-  const MAX_DAILY_GUESSES = 6;
-  const isDailyLocked =
-    mode === "daily" &&
-    (!!dailyStats?.completed ||
-      (dailyStats?.attempts ?? 0) >= MAX_DAILY_GUESSES);
-
   useEffect(() => {
-    // Show the answer if Daily is finished (solved or max guesses) and we have a slug
-    if (
-      mode === "daily" &&
-      (isDailyLocked || dailyStats?.completed) &&
-      currentSlug
-    ) {
-      guessRef.current?.reveal();
-      setCanReveal(false);
-    }
-  }, [mode, isDailyLocked, dailyStats?.completed, currentSlug]);
+    const onKey = (e: KeyboardEvent) => onKeyRef.current(e);
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  // region + stats rows: always shown from md up, on demand below it
+  const collapsible = headerOpen ? "flex" : "hidden md:flex";
 
   return (
-    <div className="flex flex-col w-full h-screen bg-slate-900">
+    <div className="flex flex-col w-full h-dvh bg-slate-900">
       {/* Header */}
-      <header className="w-full bg-gradient-to-r from-slate-800 via-slate-900 to-slate-800 border-b border-slate-700/50 p-6 shadow-xl">
-        <div className="flex flex-wrap items-center justify-between gap-6">
-          <div>
-            <h1 className="text-3xl font-bold text-white bg-gradient-to-r from-white to-slate-300 bg-clip-text text-transparent">
-              Muscle Up
-            </h1>
-            <p className="text-slate-400 text-sm">3D Anatomy Challenge</p>
+      <header className="w-full bg-gradient-to-r from-slate-800 via-slate-900 to-slate-800 border-b border-slate-700/50 p-3 md:p-6 shadow-xl">
+        <div className="flex flex-wrap items-center justify-between gap-3 md:gap-6">
+          <div className="flex items-center justify-between gap-3 w-full md:w-auto">
+            <div>
+              <h1 className="text-xl md:text-3xl font-bold text-white bg-gradient-to-r from-white to-slate-300 bg-clip-text text-transparent">
+                Muscle Up
+              </h1>
+              <p className="hidden sm:block text-slate-400 text-sm">
+                3D Anatomy Challenge
+              </p>
+            </div>
+            <button
+              onClick={() => setHeaderOpen((o) => !o)}
+              className="md:hidden rounded-lg px-3 py-1.5 border border-slate-600/50 bg-slate-700/40 text-slate-200 text-sm"
+              aria-expanded={headerOpen}
+              aria-controls="header-stats"
+            >
+              {headerOpen ? "Hide stats ▴" : "Stats ▾"}
+            </button>
           </div>
           {mounted && mode !== "daily" && (
-            <div className="flex items-center gap-2">
-              <button
-                className={`px-3 py-1 rounded-full border text-sm ${
-                  region === "all"
-                    ? "bg-blue-600 text-white border-blue-600"
-                    : "border-gray-300"
-                }`}
-                onClick={() => setRegion("all")}
-                disabled={mode !== "study"}
-              >
-                All
-              </button>
-              <button
-                className={`px-3 py-1 rounded-full border text-sm ${
-                  region === "upper"
-                    ? "bg-blue-600 text-white border-blue-600"
-                    : "border-gray-300"
-                }`}
-                onClick={() => setRegion("upper")}
-                disabled={mode !== "study"}
-              >
-                Upper Extremity
-              </button>
-              <button
-                className={`px-3 py-1 rounded-full border text-sm ${
-                  region === "lower"
-                    ? "bg-blue-600 text-white border-blue-600"
-                    : "border-gray-300"
-                }`}
-                onClick={() => setRegion("lower")}
-                disabled={mode !== "study"}
-              >
-                Lower Extremity
-              </button>
+            <div className={`${collapsible} flex-wrap items-center gap-2`}>
+              {(
+                [
+                  ["all", "All"],
+                  ["upper", "Upper Extremity"],
+                  ["lower", "Lower Extremity"],
+                ] as const
+              ).map(([r, label]) => (
+                <button
+                  key={r}
+                  className={`px-3 py-1 rounded-full border text-sm ${
+                    region === r
+                      ? "bg-blue-600 text-white border-blue-600"
+                      : "border-gray-300"
+                  }`}
+                  onClick={() => setRegion(r)}
+                  disabled={!MODE_INFO[mode].usesRegion}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
           )}
 
           {/* Mode Switcher */}
-          <div className="flex items-center rounded-xl overflow-hidden border border-slate-600/50 shadow-lg bg-slate-800/30">
-            {(["daily", "study", "free"] as Mode[]).map((m) => (
+          <div className="flex items-center max-w-full overflow-x-auto rounded-xl border border-slate-600/50 shadow-lg bg-slate-800/30">
+            {MODES.map((m) => (
               <button
-                key={m}
-                onClick={() => setMode(m)}
+                key={m.id}
+                onClick={() => setMode(m.id)}
                 className={`
-        px-5 py-2.5 text-sm font-medium transition-all duration-200
+        shrink-0 px-3 md:px-5 py-2 md:py-2.5 text-sm font-medium transition-all duration-200
         ${
-          mode === m
+          mode === m.id
             ? "bg-gradient-to-r from-emerald-600 to-emerald-700 text-white shadow-lg"
             : "text-slate-300 hover:bg-slate-700/50 hover:text-white"
         }
       `}
-                title={
-                  m === "daily"
-                    ? "One shared muscle per day"
-                    : m === "study"
-                    ? "Go through every muscle once"
-                    : "Random practice"
-                }
+                title={m.title}
               >
-                {m === "daily" ? "Daily" : m === "study" ? "Study" : "Free"}
+                {m.label}
               </button>
             ))}
           </div>
           {/* Stats Section */}
-          {/* Stats Section */}
-          <div className="flex flex-wrap items-center gap-3 text-sm">
-            {/* Study & Free: Score */}
-            {mode !== "daily" && (
-              <div className="bg-emerald-500/10 border border-emerald-500/30 rounded-lg px-3 py-2 backdrop-blur-sm">
-                <span className="text-emerald-300 font-medium">
-                  Score: {displayScore}/{displayAttempts}
-                </span>
-              </div>
-            )}
-
-            {/* Study & Free: Accuracy */}
-            {mode !== "daily" && displayAttempts > 0 && (
-              <div className="bg-blue-500/10 border border-blue-500/30 rounded-lg px-3 py-2 backdrop-blur-sm">
-                <span className="text-blue-300 font-medium">
-                  {Math.round(
-                    (displayScore / Math.max(1, displayAttempts)) * 100
-                  )}
-                  % Accuracy
-                </span>
-              </div>
-            )}
-
-            {/* Study-only progress chip */}
-            {mode === "study" && mounted && (
-              <div className="bg-slate-700/40 border border-slate-600/50 rounded-lg px-3 py-2 text-slate-200 backdrop-blur-sm">
-                {study.completed
-                  ? "Study: Completed ✅"
-                  : `Study: ${study.index + 1} / ${study.order.length}`}
-              </div>
-            )}
-
-            {/* Daily-only: Guesses + status */}
-            {mode === "daily" && (
-              <>
-                <div className="bg-amber-500/10 border border-amber-500/30 rounded-lg px-3 py-2 backdrop-blur-sm">
-                  <span className="text-amber-200 font-medium">
-                    Guesses: {displayAttempts}/{MAX_DAILY_GUESSES}
-                  </span>
-                </div>
-
-                {typeof dailyStats?.solvedOn === "number" && (
-                  <div className="bg-emerald-500/10 border border-emerald-500/30 rounded-lg px-3 py-2 backdrop-blur-sm">
-                    <span className="text-emerald-300 font-medium">
-                      Solved on guess #{dailyStats.solvedOn}
-                    </span>
-                  </div>
-                )}
-
-                {dailyStats && (
-                  <div
-                    className={`rounded-lg px-3 py-2 border backdrop-blur-sm ${
-                      dailyStats.completed
-                        ? "bg-amber-500/10 border-amber-500/30 text-amber-200"
-                        : "bg-slate-700/40 border-slate-600/50 text-slate-200"
-                    }`}
-                  >
-                    {dailyStats.completed
-                      ? "Daily: Done for today ✅"
-                      : "Daily: In progress"}
-                  </div>
-                )}
-              </>
-            )}
+          <div
+            id="header-stats"
+            className={`${collapsible} flex-wrap items-center gap-2 md:gap-3 text-sm`}
+          >
+            {controller.chips}
+            {mounted && <OfflineDownload />}
           </div>
         </div>
       </header>
-      {/* Main split */}
-      <div className="flex flex-1 overflow-hidden">
-        {/* Left = 3D viewer */}
-        <div className="w-1/2 h-full relative border-r border-slate-700/30">
+      {/* Main split: side by side from md up, stacked on phones */}
+      <div
+        ref={mainRef}
+        className="flex flex-col md:flex-row flex-1 min-h-0 overflow-hidden"
+        style={{ "--viewer-h": `${viewerPct}%` } as CSSProperties}
+      >
+        {/* Left (top on phones) = 3D viewer */}
+        <div className="w-full h-(--viewer-h) shrink-0 md:w-1/2 md:h-full relative md:border-r border-slate-700/30">
           <MuscleViewer
             ref={viewerRef}
             onChange={handleViewerChange}
             muscleSlug={
-              mode === "daily" || mode === "study" ? currentSlug : null
+              source === "slug" && !controller.model ? session.slug : null
             }
+            modelUrl={controller.model}
+            muscleSlugs={pickable}
+            contextSlugs={contextSlugs}
+            prefetchSlugs={controller.prefetch}
+            marks={pickMarks}
+            display={display}
           />
-          {/* Legend - Enhanced styling */}
-          <div className="absolute top-6 right-6 bg-black/80 backdrop-blur-md rounded-xl p-4 text-white text-sm shadow-2xl border border-slate-600/30">
-            <h3 className="text-xs uppercase tracking-wide text-slate-300 mb-3 font-semibold">
-              Legend
-            </h3>
-            <div className="space-y-2">
-              <div className="flex items-center gap-3">
-                <span className="w-3 h-3 bg-red-500 rounded-full shadow-sm"></span>
-                <span>Target Muscle</span>
-              </div>
-              <div className="flex items-center gap-3">
-                <span className="w-3 h-3 bg-gray-500/70 rounded-full shadow-sm"></span>
-                <span>Skeleton</span>
+          <div className="absolute top-3 right-3 md:top-6 md:right-6 flex flex-col items-end gap-3">
+            {/* Legend - Enhanced styling (no room for it on phones) */}
+            <div className="hidden sm:block bg-black/80 backdrop-blur-md rounded-xl p-4 text-white text-sm shadow-2xl border border-slate-600/30">
+              <h3 className="text-xs uppercase tracking-wide text-slate-300 mb-3 font-semibold">
+                Legend
+              </h3>
+              <div className="space-y-2">
+                <div className="flex items-center gap-3">
+                  <span
+                    className="w-3 h-3 rounded-full shadow-sm"
+                    style={{ background: cssColor(palette.muscle) }}
+                  ></span>
+                  <span>{pickable ? "Muscles" : "Target Muscle"}</span>
+                </div>
+                {pickable && (
+                  <>
+                    <div className="flex items-center gap-3">
+                      <span
+                        className="w-3 h-3 rounded-full shadow-sm"
+                        style={{ background: cssColor(palette.correct) }}
+                      ></span>
+                      <span>Answer</span>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span
+                        className="w-3 h-3 rounded-full shadow-sm"
+                        style={{ background: cssColor(palette.wrong) }}
+                      ></span>
+                      <span>Wrong pick</span>
+                    </div>
+                  </>
+                )}
+                <div className="flex items-center gap-3">
+                  <span
+                    className="w-3 h-3 rounded-full shadow-sm"
+                    style={{
+                      background: cssColor(palette.skeleton),
+                      opacity: display.showSkeleton ? 1 : 0.3,
+                    }}
+                  ></span>
+                  <span>Skeleton{!display.showSkeleton && " (hidden)"}</span>
+                </div>
+                {contextSlugs && (
+                  <div className="flex items-center gap-3">
+                    <span
+                      className="w-3 h-3 rounded-full shadow-sm opacity-40"
+                      style={{ background: cssColor(palette.ghost) }}
+                    ></span>
+                    <span>Neighbours</span>
+                  </div>
+                )}
               </div>
+              <p className="mt-3 pt-3 border-t border-slate-600/30 text-xs text-slate-400 leading-relaxed">
+                ⌨️ Arrows rotate · +/− zoom · N next · R reveal · / type · Esc
+                to model
+              </p>
             </div>
+            <DisplayPanel settings={display} onChange={changeDisplay} />
           </div>
         </div>
 
-        {/* Right = GuessPanel */}
-        <div className="w-1/2 h-full bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex flex-col">
+        {/* Right = GuessPanel (a bottom sheet on phones) */}
+        <div
+          className="w-full flex-1 min-h-0 md:w-1/2 md:h-full md:flex-none bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex flex-col
+                     relative z-10 -mt-3 md:mt-0 rounded-t-2xl md:rounded-none border-t border-slate-700/50 md:border-t-0 overflow-hidden"
+        >
+          <SheetHandle
+            viewerPct={viewerPct}
+            onChange={setViewerPct}
+            containerRef={mainRef}
+          />
           {/* Control Bar - Enhanced styling */}
-          <div className="p-6 border-b border-slate-700/50 bg-slate-800/20">
+          <div className="p-3 md:p-6 border-b border-slate-700/50 bg-slate-800/20">
             <div className="flex flex-wrap items-center gap-3">
-              {mode !== "daily" && (
+              {controller.next && (
                 <button
+                  ref={nextButtonRef}
                   onClick={nextMuscle}
-                  disabled={mode === "study" && isAtLastStudyCard}
-                  className={`flex items-center gap-2 px-5 py-2.5 rounded-xl font-medium transition-all duration-200
-      ${
-        mode === "study"
-          ? "bg-gradient-to-r from-blue-600 to-blue-700 text-white hover:from-blue-500 hover:to-blue-600 hover:shadow-lg hover:shadow-blue-500/25"
-          : "bg-gradient-to-r from-blue-600 to-blue-700 text-white hover:from-blue-500 hover:to-blue-600 hover:shadow-lg hover:shadow-blue-500/25"
-      }
-      disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:shadow-none active:scale-95 transform`}
-                  title={
-                    mode === "study" && isAtLastStudyCard
-                      ? "End of study deck"
-                      : undefined
-                  }
+                  aria-keyshortcuts="N"
+                  disabled={!!controller.nextBlocked}
+                  className="flex items-center gap-2 px-5 py-2.5 rounded-xl font-medium transition-all duration-200
+                           bg-gradient-to-r from-blue-600 to-blue-700 text-white hover:from-blue-500 hover:to-blue-600 hover:shadow-lg hover:shadow-blue-500/25
+                           disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:shadow-none active:scale-95 transform"
+                  title={controller.nextBlocked}
                 >
                   <span>🔄</span>
-                  {mode === "study" ? "Next in Study" : "Next Muscle"}
+                  {controller.nextLabel ?? "Next Muscle"}
                 </button>
               )}
 
               <button
                 onClick={reveal}
-                disabled={!currentSlug || !canReveal || isDailyLocked}
-                className="flex items-center gap-2 px-5 py-2.5 bg-gradient-to-r from-amber-600 to-amber-700 
+                aria-keyshortcuts={mode === "daily" ? undefined : "R"}
+                disabled={!canReveal}
+                className="flex items-center gap-2 px-5 py-2.5 bg-gradient-to-r from-amber-600 to-amber-700
                          text-white rounded-xl font-medium transition-all duration-200
                          hover:from-amber-500 hover:to-amber-600 hover:shadow-lg hover:shadow-amber-500/25
                          disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:shadow-none
                          active:scale-95 transform"
-                title={
-                  isDailyLocked
-                    ? "Daily is complete for today"
-                    : "Reveal the answer"
-                }
+                title={controller.locked ?? "Reveal the answer"}
               >
                 <span>🔍</span>
                 Reveal Answer
               </button>
 
-              {mode === "study" && (
+              {context && (
                 <button
-                  onClick={() => {
-                    const p = resetStudy(region);
-                    setStudy(p);
-                    const slug = p.order[p.index] ?? null;
-                    setCurrentSlug(slug);
-                    if (slug) viewerRef.current?.setBySlug(slug);
-                    setStudyStats({ score: 0, attempts: 0 });
-                    setCanReveal(true);
-                  }}
-                  className="ml-auto px-5 py-2.5 rounded-xl border border-slate-600/50 text-slate-200 
-                           hover:bg-slate-700/50 hover:border-slate-500 transition-all duration-200
-                           active:scale-95 transform font-medium"
+                  onClick={context.toggle}
+                  disabled={context.disabled}
+                  aria-pressed={showContext}
+                  className={`flex items-center gap-2 px-5 py-2.5 rounded-xl border font-medium transition-all duration-200
+                           disabled:cursor-not-allowed active:scale-95 transform ${
+                             showContext
+                               ? "border-slate-400/60 bg-slate-600/40 text-white"
+                               : "border-slate-600/50 text-slate-200 hover:bg-slate-700/50 hover:border-slate-500"
+                           }`}
+                  title={context.title}
                 >
-                  Reset Study
+                  <span>🧭</span>
+                  {context.label}
                 </button>
               )}
+
+              {controller.controls}
             </div>
           </div>
 
-          {mode === "study" &&
-            mounted &&
-            showMissing &&
-            missingList.length > 0 && (
-              <div className="w-full border-b border-amber-600/30 bg-amber-900/20">
-                <div className="mx-auto max-w-6xl px-6 py-4 flex items-start gap-4">
-                  <div className="text-amber-300 text-xl leading-none">⚠️</div>
-                  <div className="flex-1">
-                    <h2 className="text-amber-200 font-semibold">
-                      Some{" "}
-                      {region === "all"
-                        ? "muscles"
-                        : `${region} extremity muscles`}{" "}
-                      aren’t available
-                    </h2>
-                    <p className="text-amber-200/90 text-sm mt-1">
-                      The following muscles aren’t shown in the 3D viewer due to
-                      known model issues:
-                    </p>
-
-                    <ul className="mt-3 grid sm:grid-cols-2 gap-2">
-                      {missingList.map((m) => (
-                        <li
-                          key={m.muscle}
-                          className="rounded-lg border border-amber-700/40 bg-amber-800/20 px-3 py-2 text-amber-100 text-sm"
-                        >
-                          <span className="font-medium">{m.muscle}</span>
-                          <span className="opacity-80"> — {m.reason}</span>
-                        </li>
-                      ))}
-                    </ul>
-
-                    <p className="text-amber-200/80 text-xs mt-3">
-                      We’ll include them once the models are fixed.
-                    </p>
-                  </div>
-
-                  <button
-                    onClick={() => setShowMissing(false)}
-                    className="ml-2 rounded-md border border-amber-700/40 px-2 py-1 text-amber-200 text-xs hover:bg-amber-800/30"
-                    aria-label="Dismiss missing muscles notice"
-                    title="Dismiss"
-                  >
-                    Dismiss
-                  </button>
-                </div>
-              </div>
-            )}
-
-          {/* GuessPanel drives UI + OIIA */}
-          <GuessPanel
-            ref={guessRef}
-            currentSlug={currentSlug}
-            disabled={isDailyLocked} // ← block inputs when daily is done
-            hintLevel={mode === "daily" ? dailyStats?.attempts ?? 0 : 0}
-            onCorrect={() => {
-              if (mode === "study") {
-                setStudyStats((prev) => ({ ...prev, score: prev.score + 1 }));
-              } else if (mode === "free") {
-                setFreeStats((prev) => ({ ...prev, score: prev.score + 1 }));
-              } else if (mode === "daily" && dailyStats) {
-                const updated: DailyPersist = {
-                  ...dailyStats,
-                  completed: true,
-                  // attempts counts wrong guesses so far; the correct guess is attempts + 1
-                  solvedOn: (dailyStats.attempts ?? 0) + 1,
-                };
-                setDailyStats(updated);
-                saveDaily(updated);
-              }
-
-              setCanReveal(false);
-            }}
-            onAttempt={() => {
-              if (mode === "study") {
-                setStudyStats((prev) => ({
-                  ...prev,
-                  attempts: prev.attempts + 1,
-                }));
-              } else if (mode === "free") {
-                setFreeStats((prev) => ({
-                  ...prev,
-                  attempts: prev.attempts + 1,
-                }));
-              } else if (mode === "daily" && dailyStats) {
-                const newAttempts = dailyStats.attempts + 1;
-                const updated: DailyPersist = {
-                  ...dailyStats,
-                  attempts: newAttempts,
-                  completed:
-                    newAttempts >= MAX_DAILY_GUESSES
-                      ? true
-                      : dailyStats.completed,
-                };
-                setDailyStats(updated);
-                saveDaily(updated);
-
-                if (newAttempts >= MAX_DAILY_GUESSES) {
-                  guessRef.current?.reveal();
-                  setCanReveal(false);
+          {mounted && controller.banner}
+
+          {/* GuessPanel drives UI + OIIA (Facts / Locate bring their own) */}
+          <div className="flex-1 min-h-0">
+            {controller.panel ?? (
+              <GuessPanel
+                // a fresh panel per card, even when Study repeats one
+                key={session.round}
+                ref={guessRef}
+                currentSlug={session.slug}
+                disabled={!!controller.locked} // ← block inputs when daily is done
+                requireSuggestion={controller.guess?.requireSuggestion}
+                prompt={controller.guess?.prompt}
+                hintLevel={controller.guess?.hintLevel}
+                hints={controller.guess?.hints}
+                check={controller.guess?.check}
+                answerSlug={controller.guess?.answerSlug}
+                answerMode={answerMode}
+                onAnswerModeChange={
+                  MODE_INFO[mode].choice ? changeAnswerMode : undefined
                 }
-              }
-            }}
-          />
+                feedback={controller.guess?.feedback}
+                onAttempt={(result, kind, guess) => {
+                  const correct = result === "correct";
+                  dispatch({ type: correct ? "correct" : "wrong" });
+                  controller.onAnswer?.({ correct, kind, guess });
+                  if (correct) focusNextSoon();
+                }}
+              />
+            )}
+          </div>
         </div>
       </div>
+
+      {controller.overlay}
     </div>
   );
 }
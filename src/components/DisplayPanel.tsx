@@ -0,0 +1,106 @@
+// components/DisplayPanel.tsx
+"use client";
+
+import { useState } from "react";
+import {
+  cssColor,
+  PALETTE_IDS,
+  PALETTES,
+  type DisplaySettings,
+} from "../../lib/display";
+
+type Props = {
+  settings: DisplaySettings;
+  onChange: (next: DisplaySettings) => void;
+};
+
+export default function DisplayPanel({ settings, onChange }: Props) {
+  const [open, setOpen] = useState(false);
+  const set = (patch: Partial<DisplaySettings>) =>
+    onChange({ ...settings, ...patch });
+
+  return (
+    <div className="bg-black/80 backdrop-blur-md rounded-xl text-white text-sm shadow-2xl border border-slate-600/30">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="w-full px-4 py-2 text-left text-xs uppercase tracking-wide text-slate-300 font-semibold hover:text-white"
+        aria-expanded={open}
+      >
+        🎨 Display {open ? "▴" : "▾"}
+      </button>
+      {open && (
+        <div className="px-4 pb-4 space-y-3 w-56">
+          <fieldset className="space-y-1.5">
+            <legend className="text-xs text-slate-400 mb-1">Colours</legend>
+            {PALETTE_IDS.map((id) => (
+              <label
+                key={id}
+                className="flex items-center gap-2 cursor-pointer"
+              >
+                <input
+                  type="radio"
+                  name="palette"
+                  checked={settings.palette === id}
+                  onChange={() => set({ palette: id })}
+                />
+                <span className="flex gap-0.5">
+                  {(["muscle", "correct", "wrong"] as const).map((k) => (
+                    <span
+                      key={k}
+                      className="w-2.5 h-2.5 rounded-full"
+                      style={{ background: cssColor(PALETTES[id][k]) }}
+                    />
+                  ))}
+                </span>
+                <span>{PALETTES[id].label}</span>
+              </label>
+            ))}
+          </fieldset>
+
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.showSkeleton}
+              onChange={(e) => set({ showSkeleton: e.target.checked })}
+            />
+            Show skeleton
+          </label>
+          <label className="block">
+            <span className="text-xs text-slate-400">
+              Skeleton opacity ({Math.round(settings.skeletonOpacity * 100)}%)
+            </span>
+            <input
+              type="range"
+              min={0.05}
+              max={1}
+              step={0.05}
+              value={settings.skeletonOpacity}
+              disabled={!settings.showSkeleton}
+              onChange={(e) => set({ skeletonOpacity: Number(e.target.value) })}
+              className="w-full disabled:opacity-40"
+            />
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.wireframe}
+              onChange={(e) => set({ wireframe: e.target.checked })}
+            />
+            Wireframe muscles
+          </label>
+          <label
+            className="flex items-center gap-2 cursor-pointer"
+            title="Fade the skeleton and neighbours out"
+          >
+            <input
+              type="checkbox"
+              checked={settings.isolate}
+              onChange={(e) => set({ isolate: e.target.checked })}
+            />
+            Isolate target
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
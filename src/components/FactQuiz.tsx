@@ -0,0 +1,130 @@
+// components/FactQuiz.tsx
+"use client";
+
+import { forwardRef, useEffect, useImperativeHandle, useState } from "react";
+import { getMuscle } from "../../lib/catalog";
+import {
+  buildFactQuestion,
+  OIIA_LABEL,
+  type FactQuestion,
+  type OiiaField,
+} from "../../lib/facts";
+
+export type FactQuizHandle = {
+  reveal: () => void; // parent can force reveal (counts as a miss)
+};
+
+type Props = {
+  currentSlug: string | null;
+  onAnswer?: (field: OiiaField, correct: boolean) => void;
+};
+
+const FactQuiz = forwardRef<FactQuizHandle, Props>(function FactQuiz(
+  { currentSlug, onAnswer },
+  ref
+) {
+  const [question, setQuestion] = useState<FactQuestion | null>(null);
+  // chosen option index; -1 = revealed without answering
+  const [chosen, setChosen] = useState<number | null>(null);
+
+  const muscle = currentSlug ? getMuscle(currentSlug) : undefined;
+
+  // new random question whenever the muscle changes (client-only randomness)
+  useEffect(() => {
+    setQuestion(currentSlug ? buildFactQuestion(currentSlug) : null);
+    setChosen(null);
+  }, [currentSlug]);
+
+  const answer = (i: number) => {
+    if (!question || chosen !== null) return;
+    setChosen(i);
+    onAnswer?.(question.field, i === question.answer);
+  };
+
+  useImperativeHandle(ref, () => ({
+    reveal: () => answer(-1),
+  }));
+
+  const done = chosen !== null;
+
+  return (
+    <div className="h-full w-full bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex flex-col">
+      {/* Header Section */}
+      <div className="p-8 border-b border-slate-700/50">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="w-3 h-3 bg-emerald-400 rounded-full animate-pulse"></div>
+          <h2 className="text-2xl font-bold text-white">Muscle Facts</h2>
+        </div>
+        <p className="text-slate-400 text-sm">
+          Pick the right origin, insertion, innervation or action for the
+          highlighted muscle
+        </p>
+      </div>
+
+      <div className="flex-1 p-8 flex flex-col max-w-lg mx-auto w-full overflow-y-auto min-h-0 justify-start pb-24">
+        {muscle && question && (
+          <div className="space-y-6">
+            <div>
+              <div className="text-xs uppercase tracking-wide text-slate-400">
+                {muscle.name}
+              </div>
+              <h3 className="text-xl font-semibold text-white mt-1">
+                What is its {OIIA_LABEL[question.field].toLowerCase()}?
+              </h3>
+            </div>
+
+            <div className="space-y-3">
+              {question.options.map((opt, i) => {
+                const isAnswer = i === question.answer;
+                const tone = !done
+                  ? "border-slate-600/50 bg-slate-800/50 hover:border-emerald-500/50 hover:bg-slate-800/70"
+                  : isAnswer
+                  ? "border-emerald-500/50 bg-emerald-500/10"
+                  : i === chosen
+                  ? "border-red-500/50 bg-red-500/10"
+                  : "border-slate-700/50 bg-slate-800/30 opacity-60";
+                return (
+                  <button
+                    key={i}
+                    onClick={() => answer(i)}
+                    disabled={done}
+                    className={`w-full text-left px-5 py-4 rounded-2xl border text-sm text-slate-200
+                              transition-all duration-200 disabled:cursor-default ${tone}`}
+                  >
+                    {opt}
+                  </button>
+                );
+              })}
+            </div>
+
+            <div role="status" aria-live="polite">
+              {done && (
+                <div
+                  className={`p-4 rounded-xl border ${
+                    chosen === question.answer
+                      ? "bg-emerald-500/10 border-emerald-500/30 text-emerald-300"
+                      : "bg-slate-700/30 border-slate-600/50 text-slate-200"
+                  }`}
+                >
+                  {chosen === question.answer
+                    ? "🎉 Correct!"
+                    : chosen === -1
+                    ? "Answer shown above."
+                    : "❌ Not this time — the right answer is highlighted."}
+                  {chosen !== question.answer && (
+                    <span className="sr-only">
+                      {" "}
+                      The answer is {question.options[question.answer]}.
+                    </span>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
+
+export default FactQuiz;
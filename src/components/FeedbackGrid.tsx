@@ -0,0 +1,62 @@
+// components/FeedbackGrid.tsx
+"use client";
+
+import {
+  FEEDBACK_COLUMNS,
+  type FeedbackRow,
+  type Mark,
+} from "../../lib/feedback";
+
+const MARK_CLASS: Record<Mark, string> = {
+  green: "bg-emerald-600/80 border-emerald-400/60 text-white",
+  yellow: "bg-amber-500/80 border-amber-300/60 text-slate-900",
+  grey: "bg-slate-700/60 border-slate-600/60 text-slate-300",
+};
+
+type Props = {
+  rows: FeedbackRow[];
+};
+
+export default function FeedbackGrid({ rows }: Props) {
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-white font-semibold text-lg flex items-center gap-2">
+        <span className="text-blue-400">🟩</span>
+        Your Guesses
+      </h3>
+      <div className="grid grid-cols-5 gap-1 text-[10px] uppercase tracking-wide text-slate-400">
+        {FEEDBACK_COLUMNS.map((c) => (
+          <div key={c.key} className="text-center">
+            {c.label}
+          </div>
+        ))}
+      </div>
+      {rows.map((row, i) => (
+        <div key={i} className="space-y-1">
+          <div
+            className={`text-sm font-medium ${
+              row.correct ? "text-emerald-300" : "text-slate-200"
+            }`}
+          >
+            {i + 1}. {row.label}
+          </div>
+          <div className="grid grid-cols-5 gap-1">
+            {row.cells.map((cell) => (
+              <div
+                key={cell.key}
+                className={`rounded-md border px-1 py-2 text-center text-xs leading-tight ${
+                  MARK_CLASS[cell.mark]
+                }`}
+                title={`${cell.key}: ${cell.value}`}
+              >
+                {cell.value}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import { act, createRef } from "react";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import GuessPanel, { type GuessPanelHandle } from "./GuessPanel";
+
+const SLUG = "latissimus-dorsi";
+
+async function guess(text: string) {
+  const user = userEvent.setup();
+  await user.type(screen.getByRole("combobox", { name: "Muscle name" }), text);
+  await user.click(screen.getByRole("button", { name: "Submit Answer" }));
+}
+
+describe("GuessPanel matching", () => {
+  it("accepts the exact name", async () => {
+    const onAttempt = vi.fn();
+    const onCorrect = vi.fn();
+    render(
+      <GuessPanel
+        currentSlug={SLUG}
+        onAttempt={onAttempt}
+        onCorrect={onCorrect}
+      />
+    );
+    await guess("Latissimus dorsi");
+    expect(onAttempt).toHaveBeenCalledWith(
+      "correct",
+      "exact",
+      "Latissimus dorsi"
+    );
+    expect(onCorrect).toHaveBeenCalledWith(
+      expect.objectContaining({ slug: SLUG })
+    );
+    expect(screen.getByText(/Correct! Latissimus dorsi/)).toBeTruthy();
+    expect(screen.getByRole("status").textContent).toBe(
+      "Correct: Latissimus dorsi"
+    );
+  });
+
+  it("accepts an alias", async () => {
+    const onAttempt = vi.fn();
+    render(<GuessPanel currentSlug={SLUG} onAttempt={onAttempt} />);
+    await guess("lats");
+    expect(onAttempt).toHaveBeenCalledWith("correct", "exact", "lats");
+  });
+
+  it("accepts a small typo but shows the spelling", async () => {
+    const onAttempt = vi.fn();
+    render(<GuessPanel currentSlug={SLUG} onAttempt={onAttempt} />);
+    await guess("Latisimus dorsi");
+    expect(onAttempt).toHaveBeenCalledWith(
+      "correct",
+      "typo",
+      "Latisimus dorsi"
+    );
+    expect(
+      screen.getByText("Accepted — correct spelling is Latissimus dorsi")
+    ).toBeTruthy();
+  });
+
+  it("rejects another muscle and allows another try", async () => {
+    const onAttempt = vi.fn();
+    render(<GuessPanel currentSlug={SLUG} onAttempt={onAttempt} />);
+    await guess("Trapezius");
+    expect(onAttempt).toHaveBeenCalledWith("wrong", "wrong", "Trapezius");
+    expect(screen.getByText(/Wrong muscle/)).toBeTruthy();
+    expect((screen.getByRole("combobox") as HTMLInputElement).disabled).toBe(
+      false
+    );
+  });
+
+  it("doesn't spend a guess on a name that isn't a muscle", async () => {
+    const onAttempt = vi.fn();
+    render(
+      <GuessPanel currentSlug={SLUG} onAttempt={onAttempt} requireSuggestion />
+    );
+    await guess("banana");
+    expect(onAttempt).not.toHaveBeenCalled();
+    expect(
+      screen.getByText("Pick a muscle from the suggestions to submit.")
+    ).toBeTruthy();
+  });
+
+  it("still needs a suggestion with Suggestions turned off", async () => {
+    localStorage.setItem("muscledle.autocomplete", "off");
+    const onAttempt = vi.fn();
+    render(
+      <GuessPanel currentSlug={SLUG} onAttempt={onAttempt} requireSuggestion />
+    );
+    // a typo of a real muscle, so nothing but the pick stops it
+    await guess("Latisimus dorsi");
+    expect(onAttempt).not.toHaveBeenCalled();
+    expect(
+      screen.getByText("Pick a muscle from the suggestions to submit.")
+    ).toBeTruthy();
+
+    const user = userEvent.setup();
+    await user.clear(screen.getByRole("combobox"));
+    await user.type(screen.getByRole("combobox"), "latis");
+    await user.click(screen.getByRole("option", { name: "Latissimus dorsi" }));
+    await user.click(screen.getByRole("button", { name: "Submit Answer" }));
+    expect(onAttempt).toHaveBeenCalledWith(
+      "correct",
+      "exact",
+      "Latissimus dorsi"
+    );
+  });
+
+  it("grades a name submitted from outside, e.g. a clicked muscle", () => {
+    const ref = createRef<GuessPanelHandle>();
+    const onAttempt = vi.fn();
+    render(<GuessPanel ref={ref} currentSlug={SLUG} onAttempt={onAttempt} />);
+    act(() => ref.current!.submitGuess("Trapezius"));
+    expect(onAttempt).toHaveBeenCalledWith("wrong", "wrong", "Trapezius");
+  });
+});
+
+describe("GuessPanel hints", () => {
+  const shown = () =>
+    ["Action", "Innervation", "Origin", "Insertion"].filter((label) =>
+      screen.queryByText(label)
+    );
+
+  it("adds one fact per hint level", () => {
+    const { rerender } = render(<GuessPanel currentSlug={SLUG} />);
+    expect(screen.queryByText("Hints")).toBeNull();
+
+    const expected = [
+      ["Action"],
+      ["Action", "Innervation"],
+      ["Action", "Innervation", "Origin"],
+      ["Action", "Innervation", "Origin", "Insertion"],
+    ];
+    expected.forEach((labels, i) => {
+      rerender(<GuessPanel currentSlug={SLUG} hintLevel={i + 1} />);
+      expect(shown()).toEqual(labels);
+    });
+
+    // nothing more to give past the four facts
+    rerender(<GuessPanel currentSlug={SLUG} hintLevel={6} />);
+    expect(shown()).toEqual(expected[3]);
+  });
+
+  it("hides the hints once the answer is revealed", () => {
+    const ref = createRef<GuessPanelHandle>();
+    render(<GuessPanel ref={ref} currentSlug={SLUG} hintLevel={2} />);
+    act(() => ref.current!.reveal());
+    expect(screen.queryByText("Hints")).toBeNull();
+  });
+});
+
+describe("GuessPanel reveal()", () => {
+  it("shows the answer and its details and locks the input", () => {
+    const ref = createRef<GuessPanelHandle>();
+    const onAttempt = vi.fn();
+    render(<GuessPanel ref={ref} currentSlug={SLUG} onAttempt={onAttempt} />);
+    act(() => ref.current!.reveal());
+
+    // the heading (the live region repeats the same words)
+    expect(
+      screen.getByText("Answer: Latissimus dorsi", { selector: "span" })
+    ).toBeTruthy();
+    expect(screen.getByText("Anatomical Details")).toBeTruthy();
+    expect(screen.getByRole("status").textContent).toBe(
+      "Answer: Latissimus dorsi"
+    );
+    expect((screen.getByRole("combobox") as HTMLInputElement).disabled).toBe(
+      true
+    );
+
+    // a revealed card can't be answered any more
+    act(() => ref.current!.submitGuess("Latissimus dorsi"));
+    expect(onAttempt).not.toHaveBeenCalled();
+  });
+
+  it("keeps a correct answer as correct", async () => {
+    const ref = createRef<GuessPanelHandle>();
+    render(<GuessPanel ref={ref} currentSlug={SLUG} />);
+    await guess("Latissimus dorsi");
+    act(() => ref.current!.reveal());
+    expect(screen.getByText(/Correct! Latissimus dorsi/)).toBeTruthy();
+    expect(screen.queryByText(/Answer:/)).toBeNull();
+  });
+
+  it("does nothing without a card", () => {
+    const ref = createRef<GuessPanelHandle>();
+    render(<GuessPanel ref={ref} currentSlug={null} />);
+    act(() => ref.current!.reveal());
+    expect(screen.queryByText(/Answer:/)).toBeNull();
+  });
+
+  it("is cleared when the next card arrives", () => {
+    const ref = createRef<GuessPanelHandle>();
+    const { rerender } = render(<GuessPanel ref={ref} currentSlug={SLUG} />);
+    act(() => ref.current!.reveal());
+    rerender(<GuessPanel ref={ref} currentSlug="trapezius" />);
+    expect(screen.queryByText(/Answer:/)).toBeNull();
+    expect((screen.getByRole("combobox") as HTMLInputElement).disabled).toBe(
+      false
+    );
+  });
+});
+
+describe("GuessPanel with a check (Daily)", () => {
+  const CARD = "daily-2025-10-12";
+
+  it("grades through check without knowing the answer", async () => {
+    const check = vi.fn().mockResolvedValue("wrong");
+    const onAttempt = vi.fn();
+    render(
+      <GuessPanel currentSlug={CARD} check={check} onAttempt={onAttempt} />
+    );
+    await guess("Trapezius");
+    expect(check).toHaveBeenCalledWith("Trapezius");
+    expect(onAttempt).toHaveBeenCalledWith("wrong", "wrong", "Trapezius");
+  });
+
+  it("shows the answer once it arrives after a reveal", () => {
+    const ref = createRef<GuessPanelHandle>();
+    const check = vi.fn();
+    const { rerender } = render(
+      <GuessPanel ref={ref} currentSlug={CARD} check={check} />
+    );
+    act(() => ref.current!.reveal());
+    expect(screen.queryByText(/Answer:/)).toBeNull();
+
+    rerender(
+      <GuessPanel
+        ref={ref}
+        currentSlug={CARD}
+        check={check}
+        answerSlug={SLUG}
+      />
+    );
+    expect(
+      screen.getByText("Answer: Latissimus dorsi", { selector: "span" })
+    ).toBeTruthy();
+    expect(screen.getByRole("status").textContent).toBe(
+      "Answer: Latissimus dorsi"
+    );
+  });
+
+  it("keeps the guess when the check fails", async () => {
+    const check = vi.fn().mockRejectedValue(new Error("offline"));
+    const onAttempt = vi.fn();
+    render(
+      <GuessPanel currentSlug={CARD} check={check} onAttempt={onAttempt} />
+    );
+    await guess("Trapezius");
+    expect(
+      await screen.findByText("Couldn't check that guess. Try again.")
+    ).toBeTruthy();
+    expect(onAttempt).not.toHaveBeenCalled();
+    expect((screen.getByRole("combobox") as HTMLInputElement).value).toBe(
+      "Trapezius"
+    );
+  });
+});
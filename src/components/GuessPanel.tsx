@@ -4,92 +4,198 @@
 import React, {
   useEffect,
   useMemo,
+  useRef,
   useState,
   forwardRef,
   useImperativeHandle,
 } from "react";
-import muscles from "@/data/muscles.json";
-
-export type Entry = {
-  slug: string;
-  name: string;
-  accepted: string[];
-  oiia?: {
-    origin: string;
-    insertion: string;
-    innervation: string;
-    action: string;
-  };
-};
+import { getMuscle, type Muscle } from "../../lib/catalog";
+import { hintsFor, type Hint } from "../../lib/facts";
+import {
+  buildNameChoices,
+  matchGuess,
+  suggestMuscles,
+  type MatchKind,
+  type Suggestion,
+} from "../../lib/match";
+
+/** typed = free text, choice = pick one of four names */
+export type AnswerMode = "typed" | "choice";
 
 export type GuessPanelHandle = {
   reveal: () => void; // parent can force reveal
+  submitGuess: (text: string) => void; // e.g. a muscle clicked in the viewer
+  submit: () => void; // submit whatever is typed (global Enter)
+  focus: () => void; // the text box, or the first open choice
 };
 
-function norm(s: string) {
-  return s
-    .toLowerCase()
-    .normalize("NFKD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .replace(/[^a-z0-9]+/g, " ")
-    .trim();
-}
-
-function isMatch(input: string, entry: Entry) {
-  const n = norm(input);
-  if (!n) return false;
-  const pool = new Set(
-    [entry.name, entry.slug, ...(entry.accepted || [])].map(norm)
-  );
-  return pool.has(n);
-}
 type Props = {
   currentSlug: string | null;
-  onCorrect?: (entry: Entry) => void;
-  onAttempt?: (result: "correct" | "wrong") => void;
+  onCorrect?: (entry: Muscle) => void;
+  onAttempt?: (
+    result: "correct" | "wrong",
+    kind: MatchKind,
+    guess: string
+  ) => void;
   disabled?: boolean;
   hintLevel?: number; // ← ADD THIS (0–6)
+  hints?: Hint[]; // replaces the hintLevel facts (Daily gets them from the server)
+  // grade on the server instead; the panel needn't know the answer (Daily)
+  check?: (guess: string) => Promise<MatchKind>;
+  answerSlug?: string | null; // the answer once known, when currentSlug isn't it
+  feedback?: React.ReactNode; // e.g. the Daily guess grid, shown under Submit
+  requireSuggestion?: boolean; // only real muscles can be submitted (Daily)
+  prompt?: "model" | "facts"; // "facts" = Reverse quiz: OIIA shown, muscle hidden
+  answerMode?: AnswerMode;
+  onAnswerModeChange?: (mode: AnswerMode) => void; // omit to hide the toggle
 };
 
+const AUTOCOMPLETE_KEY = "muscledle.autocomplete";
+
 const GuessPanel = forwardRef<GuessPanelHandle, Props>(function GuessPanel(
-  { currentSlug, onCorrect, onAttempt, disabled = false, hintLevel = 0 }, // ← add hintLevel
+  {
+    currentSlug,
+    onCorrect,
+    onAttempt,
+    disabled = false,
+    hintLevel = 0,
+    hints: givenHints,
+    check,
+    answerSlug,
+    feedback,
+    requireSuggestion = false,
+    prompt = "model",
+    answerMode = "typed",
+    onAnswerModeChange,
+  },
   ref
 ) {
   const [guess, setGuess] = useState("");
   const [status, setStatus] = useState<
-    "idle" | "correct" | "wrong" | "revealed"
+    "idle" | "correct" | "wrong" | "near" | "revealed"
   >("idle");
+  // correct answer that was accepted despite a misspelling
+  const [typo, setTypo] = useState(false);
+
+  // a guess is out for grading (check)
+  const [pending, setPending] = useState(false);
+
+  // typeahead
+  const [autocomplete, setAutocomplete] = useState(true);
+  const [picked, setPicked] = useState<string | null>(null); // slug chosen from the list
+  const [listOpen, setListOpen] = useState(false);
+  const [highlight, setHighlight] = useState(0);
+  const [notice, setNotice] = useState("");
+  // read out by screen readers (the visible status is only styled text)
+  const [announcement, setAnnouncement] = useState("");
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const choicesRef = useRef<HTMLDivElement | null>(null);
+
+  // multiple choice: options for the current muscle + slugs already ruled out
+  const [choices, setChoices] = useState<Suggestion[]>([]);
+  const [ruledOut, setRuledOut] = useState<string[]>([]);
+
+  useEffect(() => {
+    try {
+      if (localStorage.getItem(AUTOCOMPLETE_KEY) === "off") {
+        setAutocomplete(false);
+      }
+    } catch {}
+  }, []);
 
-  const entry = useMemo<Entry | undefined>(
-    () =>
-      currentSlug
-        ? (muscles as Entry[]).find((e) => e.slug === currentSlug)
-        : undefined,
-    [currentSlug]
+  const toggleAutocomplete = () => {
+    const next = !autocomplete;
+    setAutocomplete(next);
+    setListOpen(false);
+    try {
+      localStorage.setItem(AUTOCOMPLETE_KEY, next ? "on" : "off");
+    } catch {}
+  };
+
+  // Daily keeps the list whatever the setting: it's the only way to submit
+  const suggesting = autocomplete || requireSuggestion;
+  const suggestions = useMemo(
+    () => (suggesting && !picked ? suggestMuscles(guess) : []),
+    [suggesting, picked, guess]
   );
+  const showList = listOpen && suggestions.length > 0;
+
+  const entry = useMemo<Muscle | undefined>(() => {
+    const slug = answerSlug ?? currentSlug;
+    return slug ? getMuscle(slug) : undefined;
+  }, [answerSlug, currentSlug]);
+  // with `check`, guesses are graded before the answer is known
+  const answerable = !!entry || (!!check && !!currentSlug);
 
   // Progressive hints based on hintLevel (0..6)
-  const hints: Array<{ label: string; value?: string }> = useMemo(() => {
-    if (!entry) return [];
-    const out: Array<{ label: string; value?: string }> = [];
-    if (hintLevel >= 1 && entry.oiia?.action)
-      out.push({ label: "Action", value: entry.oiia.action });
-    if (hintLevel >= 2 && entry.oiia?.innervation)
-      out.push({ label: "Innervation", value: entry.oiia.innervation });
-    if (hintLevel >= 3 && entry.oiia?.origin)
-      out.push({ label: "Origin", value: entry.oiia.origin });
-    if (hintLevel >= 4 && entry.oiia?.insertion)
-      out.push({ label: "Insertion", value: entry.oiia.insertion });
-    return out;
-  }, [entry, hintLevel]);
+  const hints = useMemo<Hint[]>(
+    () => givenHints ?? (entry ? hintsFor(entry, hintLevel) : []),
+    [givenHints, entry, hintLevel]
+  );
 
   useEffect(() => {
     setGuess("");
     setStatus("idle");
+    setTypo(false);
+    setPicked(null);
+    setNotice("");
+    setRuledOut([]);
+    setAnnouncement("");
   }, [currentSlug]);
 
+  // with `check`, the answer may only arrive after the reveal
+  useEffect(() => {
+    if (answerSlug && status === "revealed" && entry) {
+      setAnnouncement(`Answer: ${entry.name}`);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [answerSlug]);
+
+  // new options whenever the muscle changes (client-only randomness)
+  useEffect(() => {
+    setChoices(
+      answerMode === "choice" && currentSlug
+        ? buildNameChoices(currentSlug)
+        : []
+    );
+  }, [currentSlug, answerMode]);
+
+  const updateGuess = (value: string) => {
+    setGuess(value);
+    setPicked(null);
+    setNotice("");
+    setListOpen(true);
+    setHighlight(0);
+  };
+
+  const pick = (slug: string, name: string) => {
+    setGuess(name);
+    setPicked(slug);
+    setNotice("");
+    setListOpen(false);
+  };
+
+  const grade = (text: string, kind: MatchKind) => {
+    if (!answerable) return;
+    if (kind === "exact" || kind === "typo") {
+      setStatus("correct");
+      setTypo(kind === "typo");
+      setAnnouncement(`Correct: ${entry?.name ?? text}`);
+      onAttempt?.("correct", kind, text);
+      if (entry) onCorrect?.(entry);
+    } else {
+      setStatus(kind === "near" ? "near" : "wrong");
+      setAnnouncement(
+        kind === "near"
+          ? `${text} is a near miss, check the spelling`
+          : `${text} is wrong`
+      );
+      onAttempt?.("wrong", kind, text);
+    }
+  };
+
   const submit = () => {
-    if (!entry) return;
+    if (!answerable || pending) return;
 
     // ⛔️ Don't process if already correct or revealed
     if (status === "correct" || status === "revealed") return;
@@ -97,22 +203,62 @@ const GuessPanel = forwardRef<GuessPanelHandle, Props>(function GuessPanel(
     const trimmed = guess.trim();
     if (!trimmed) return;
 
-    if (isMatch(trimmed, entry)) {
-      setStatus("correct");
-      onAttempt?.("correct");
-      onCorrect?.(entry);
-    } else {
-      setStatus("wrong");
-      onAttempt?.("wrong");
+    // Daily: a guess that isn't a real muscle never costs an attempt
+    if (requireSuggestion && !picked) {
+      setNotice("Pick a muscle from the suggestions to submit.");
+      return;
     }
+
+    if (check) {
+      setPending(true);
+      setNotice("");
+      check(trimmed)
+        .then((kind) => grade(trimmed, kind))
+        .catch(() => setNotice("Couldn't check that guess. Try again."))
+        .finally(() => setPending(false));
+      return;
+    }
+    if (entry) grade(trimmed, matchGuess(trimmed, entry).kind);
   };
 
+  const choose = (option: Suggestion) => {
+    if (!entry || disabled) return;
+    if (status === "correct" || status === "revealed") return;
+    if (ruledOut.includes(option.slug)) return;
+
+    // a listed name is either the answer or another muscle — never a typo
+    const kind: MatchKind = option.slug === entry.slug ? "exact" : "wrong";
+    if (kind === "wrong") setRuledOut((prev) => [...prev, option.slug]);
+    grade(option.name, kind);
+  };
+
+  const answered = status === "correct" || status === "revealed";
+
   // Allow parent to force “reveal”
   useImperativeHandle(ref, () => ({
     reveal: () => {
-      if (!entry) return;
+      if (!answerable) return;
+      if (entry && status !== "correct") {
+        setAnnouncement(`Answer: ${entry.name}`);
+      }
       setStatus((prev) => (prev === "correct" ? "correct" : "revealed"));
     },
+    submitGuess: (text: string) => {
+      if (!entry || disabled) return;
+      if (status === "correct" || status === "revealed") return;
+      setGuess(text);
+      grade(text, matchGuess(text, entry).kind);
+    },
+    submit: () => {
+      if (!disabled && answerMode === "typed") submit();
+    },
+    focus: () => {
+      if (answerMode === "typed") inputRef.current?.focus();
+      else
+        choicesRef.current
+          ?.querySelector<HTMLButtonElement>("button:not(:disabled)")
+          ?.focus();
+    },
   }));
 
   return (
@@ -124,70 +270,240 @@ const GuessPanel = forwardRef<GuessPanelHandle, Props>(function GuessPanel(
           <h2 className="text-2xl font-bold text-white">Muscle Challenge</h2>
         </div>
         <p className="text-slate-400 text-sm">
-          Identify the highlighted muscle in the 3D model
+          {prompt === "facts"
+            ? "Name the muscle from its origin, insertion, innervation and action — or click it in the model"
+            : "Identify the highlighted muscle in the 3D model"}
         </p>
       </div>
       {/* Main Content */}
       <div className="flex-1 p-8 flex flex-col max-w-lg mx-auto w-full overflow-y-auto min-h-0 justify-start pb-24">
         <div className="space-y-6">
+          {/* Reverse quiz clues (the details card takes over once answered) */}
+          {prompt === "facts" &&
+            entry &&
+            status !== "correct" &&
+            status !== "revealed" && (
+              <div className="space-y-2">
+                <h3 className="text-white font-semibold text-lg flex items-center gap-2">
+                  <span className="text-blue-400">📋</span>
+                  Clues
+                </h3>
+                {[
+                  { label: "Origin", value: entry.oiia.origin },
+                  { label: "Insertion", value: entry.oiia.insertion },
+                  { label: "Innervation", value: entry.oiia.innervation },
+                  { label: "Action", value: entry.oiia.action },
+                ].map((c) => (
+                  <div
+                    key={c.label}
+                    className="rounded-lg border border-slate-600/50 bg-slate-800/40 p-3"
+                  >
+                    <div className="text-xs uppercase tracking-wide text-slate-400">
+                      {c.label}
+                    </div>
+                    <div className="text-slate-200 text-sm mt-1 whitespace-pre-line">
+                      {c.value}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
           {/* Input Section */}
           <div className="space-y-4">
-            <label className="block text-lg font-medium text-slate-200">
-              Your Guess
-            </label>
-            <div className="relative">
-              <input
-                className="w-full px-6 py-4 bg-slate-800/50 border border-slate-600/50 rounded-2xl 
+            <div className="flex items-center justify-between">
+              <label className="block text-lg font-medium text-slate-200">
+                Your Guess
+              </label>
+              <div className="flex items-center gap-4">
+                {onAnswerModeChange && (
+                  <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={answerMode === "choice"}
+                      onChange={() =>
+                        onAnswerModeChange(
+                          answerMode === "choice" ? "typed" : "choice"
+                        )
+                      }
+                      className="accent-emerald-500"
+                    />
+                    Multiple choice
+                  </label>
+                )}
+                {answerMode === "typed" && (
+                  <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={suggesting}
+                      onChange={toggleAutocomplete}
+                      disabled={requireSuggestion}
+                      title={
+                        requireSuggestion
+                          ? "Guesses here must be picked from the suggestions"
+                          : undefined
+                      }
+                      className="accent-emerald-500 disabled:opacity-50"
+                    />
+                    Suggestions
+                  </label>
+                )}
+              </div>
+            </div>
+
+            {answerMode === "choice" && (
+              <div ref={choicesRef} className="space-y-3">
+                {choices.map((c) => {
+                  const isAnswer = c.slug === entry?.slug;
+                  const tone =
+                    answered && isAnswer
+                      ? "border-emerald-500/50 bg-emerald-500/10"
+                      : ruledOut.includes(c.slug)
+                      ? "border-red-500/50 bg-red-500/10 opacity-60"
+                      : answered
+                      ? "border-slate-700/50 bg-slate-800/30 opacity-60"
+                      : "border-slate-600/50 bg-slate-800/50 hover:border-emerald-500/50 hover:bg-slate-800/70";
+                  return (
+                    <button
+                      key={c.slug}
+                      onClick={() => choose(c)}
+                      disabled={
+                        disabled || answered || ruledOut.includes(c.slug)
+                      }
+                      className={`w-full text-left px-5 py-4 rounded-2xl border text-sm text-slate-200
+                                transition-all duration-200 disabled:cursor-default ${tone}`}
+                    >
+                      {c.name}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            {answerMode === "typed" && (
+              <div className="relative">
+                <input
+                  ref={inputRef}
+                  aria-label="Muscle name"
+                  className="w-full px-6 py-4 bg-slate-800/50 border border-slate-600/50 rounded-2xl 
            text-white placeholder-slate-400 outline-none transition-all duration-200
            focus:border-emerald-500/50 focus:bg-slate-800/70 focus:ring-2 focus:ring-emerald-500/20
            disabled:opacity-50 disabled:cursor-not-allowed"
-                placeholder="Type Name of Muscle Displayed"
-                value={guess}
-                onChange={(e) => setGuess(e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === "Enter") {
-                    e.preventDefault(); // prevent duplicate submits
-                    submit();
+                  placeholder={
+                    prompt === "facts"
+                      ? "Which muscle matches these facts?"
+                      : "Type Name of Muscle Displayed"
+                  }
+                  value={guess}
+                  role="combobox"
+                  aria-expanded={showList}
+                  aria-controls="guess-suggestions"
+                  aria-autocomplete={suggesting ? "list" : "none"}
+                  aria-activedescendant={
+                    showList ? `guess-suggestion-${highlight}` : undefined
                   }
-                }}
-                disabled={
-                  disabled ||
-                  !entry ||
-                  status === "correct" ||
-                  status === "revealed"
-                }
-              />
-
-              {guess && status !== "correct" && (
-                <button
-                  onClick={() => setGuess("")}
-                  className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 hover:text-white
+                  onChange={(e) => updateGuess(e.target.value)}
+                  onBlur={() => setListOpen(false)}
+                  onKeyDown={(e) => {
+                    if (showList && e.key === "ArrowDown") {
+                      e.preventDefault();
+                      setHighlight((h) => (h + 1) % suggestions.length);
+                    } else if (showList && e.key === "ArrowUp") {
+                      e.preventDefault();
+                      setHighlight(
+                        (h) => (h - 1 + suggestions.length) % suggestions.length
+                      );
+                    } else if (e.key === "Escape" && showList) {
+                      // otherwise Escape bubbles up and leaves the box
+                      e.preventDefault();
+                      setListOpen(false);
+                    } else if (e.key === "Enter") {
+                      e.preventDefault(); // prevent duplicate submits
+                      const s = showList ? suggestions[highlight] : undefined;
+                      if (s) pick(s.slug, s.name);
+                      else submit();
+                    }
+                  }}
+                  disabled={
+                    disabled ||
+                    !answerable ||
+                    status === "correct" ||
+                    status === "revealed"
+                  }
+                />
+
+                {guess && status !== "correct" && (
+                  <button
+                    onClick={() => updateGuess("")}
+                    className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 hover:text-white
                            transition-colors duration-200"
-                >
-                  ✕
-                </button>
-              )}
-            </div>
+                  >
+                    ✕
+                  </button>
+                )}
+
+                {showList && (
+                  <ul
+                    id="guess-suggestions"
+                    role="listbox"
+                    className="absolute z-20 mt-2 w-full max-h-64 overflow-y-auto rounded-2xl border border-slate-600/50
+                           bg-slate-800 shadow-2xl py-1"
+                  >
+                    {suggestions.map((s, i) => (
+                      <li
+                        key={s.slug}
+                        id={`guess-suggestion-${i}`}
+                        role="option"
+                        aria-selected={i === highlight}
+                        // mousedown so the pick happens before the input blurs
+                        onMouseDown={(e) => {
+                          e.preventDefault();
+                          pick(s.slug, s.name);
+                        }}
+                        onMouseEnter={() => setHighlight(i)}
+                        className={`px-6 py-2 cursor-pointer text-sm ${
+                          i === highlight
+                            ? "bg-emerald-600/30 text-white"
+                            : "text-slate-200"
+                        }`}
+                      >
+                        {s.name}
+                        {s.alias && (
+                          <span className="text-slate-400"> — “{s.alias}”</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {notice && <p className="text-amber-300 text-sm">{notice}</p>}
           </div>
 
           {/* Submit Button */}
-          <button
-            onClick={submit}
-            disabled={
-              disabled ||
-              !entry ||
-              !guess.trim() ||
-              status === "correct" ||
-              status === "revealed"
-            }
-            className="w-full px-8 py-4 bg-gradient-to-r from-emerald-600 to-emerald-700 
+          {answerMode === "typed" && (
+            <button
+              onClick={submit}
+              disabled={
+                disabled ||
+                !answerable ||
+                pending ||
+                !guess.trim() ||
+                status === "correct" ||
+                status === "revealed"
+              }
+              className="w-full px-8 py-4 bg-gradient-to-r from-emerald-600 to-emerald-700 
                      text-white font-semibold rounded-2xl transition-all duration-200
                      hover:from-emerald-500 hover:to-emerald-600 hover:shadow-lg hover:shadow-emerald-500/25
                      disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:shadow-none
                      transform hover:scale-[1.02] active:scale-[0.98]"
-          >
-            Submit Answer
-          </button>
+            >
+              Submit Answer
+            </button>
+          )}
+
+          {feedback}
 
           {/* Progressive Hints (shown before final reveal) */}
           {hints.length > 0 && status !== "revealed" && (
@@ -213,13 +529,27 @@ const GuessPanel = forwardRef<GuessPanelHandle, Props>(function GuessPanel(
           )}
 
           {/* Status Messages */}
+          <p className="sr-only" role="status" aria-live="polite">
+            {announcement}
+          </p>
           <div className="min-h-[60px] flex items-start">
+            {status === "near" && (
+              <div className="w-full p-4 bg-amber-500/10 border border-amber-500/30 rounded-xl">
+                <div className="flex items-center gap-2">
+                  <span className="text-amber-400 text-xl">🤏</span>
+                  <span className="text-amber-200 font-medium">
+                    Near miss — you&apos;re close, check the spelling!
+                  </span>
+                </div>
+              </div>
+            )}
+
             {status === "wrong" && (
               <div className="w-full p-4 bg-red-500/10 border border-red-500/30 rounded-xl">
                 <div className="flex items-center gap-2">
                   <span className="text-red-400 text-xl">❌</span>
                   <span className="text-red-300 font-medium">
-                    Not quite right — make sure the spelling is correct!
+                    Wrong muscle — not close to the answer.
                   </span>
                 </div>
               </div>
@@ -250,6 +580,11 @@ const GuessPanel = forwardRef<GuessPanelHandle, Props>(function GuessPanel(
                       </>
                     )}
                   </div>
+                  {status === "correct" && typo && (
+                    <p className="text-emerald-200/80 text-sm">
+                      Accepted — correct spelling is {entry.name}
+                    </p>
+                  )}
                 </div>
 
                 {entry.oiia && (
@@ -0,0 +1,74 @@
+// components/LocatePanel.tsx
+"use client";
+
+import { getMuscle } from "../../lib/catalog";
+
+type Props = {
+  currentSlug: string | null;
+  /** Most recent click in the viewer, if any */
+  lastPick: { slug: string; correct: boolean } | null;
+  revealed: boolean;
+  /** How many muscles are loaded to choose from */
+  count: number;
+};
+
+export default function LocatePanel({
+  currentSlug,
+  lastPick,
+  revealed,
+  count,
+}: Props) {
+  const target = currentSlug ? getMuscle(currentSlug) : undefined;
+  const picked = lastPick ? getMuscle(lastPick.slug) : undefined;
+  const found = !!lastPick?.correct;
+
+  return (
+    <div className="h-full w-full bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex flex-col">
+      {/* Header Section */}
+      <div className="p-8 border-b border-slate-700/50">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="w-3 h-3 bg-emerald-400 rounded-full animate-pulse"></div>
+          <h2 className="text-2xl font-bold text-white">Find the Muscle</h2>
+        </div>
+        <p className="text-slate-400 text-sm">
+          {count} muscles are loaded — click the one named below in the 3D model
+        </p>
+      </div>
+
+      <div className="flex-1 p-8 flex flex-col max-w-lg mx-auto w-full overflow-y-auto min-h-0 justify-start pb-24">
+        {target && (
+          <div className="space-y-6">
+            <div>
+              <div className="text-xs uppercase tracking-wide text-slate-400">
+                Click the
+              </div>
+              <h3 className="text-2xl font-semibold text-white mt-1">
+                {target.name}
+              </h3>
+            </div>
+
+            <div role="status" aria-live="polite">
+              {found && (
+                <div className="p-4 rounded-xl border bg-emerald-500/10 border-emerald-500/30 text-emerald-300">
+                  🎉 Correct! It&apos;s highlighted in green.
+                </div>
+              )}
+
+              {!found && revealed && (
+                <div className="p-4 rounded-xl border bg-slate-700/30 border-slate-600/50 text-slate-200">
+                  The {target.name} is highlighted in green.
+                </div>
+              )}
+
+              {!found && !revealed && picked && (
+                <div className="p-4 rounded-xl border bg-red-500/10 border-red-500/30 text-red-300">
+                  ❌ That&apos;s the {picked.name} — try again.
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
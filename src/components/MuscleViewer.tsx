@@ -9,31 +9,145 @@ import {
   useImperativeHandle,
 } from "react";
 import * as THREE from "three";
-import { GLTF, GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import { isPlayable } from "../../lib/availability";
+import {
+  DEFAULT_DISPLAY,
+  PALETTES,
+  skeletonTargetOpacity,
+  type DisplaySettings,
+} from "../../lib/display";
+import { urlToSlug, type ModelManifest } from "../../lib/manifest";
+import {
+  holdModels,
+  isModelReady,
+  loadModel,
+  loadModels,
+  prefetchModel,
+  SKELETON_URL,
+} from "../../lib/modelCache";
 
 export type MuscleViewerHandle = {
   next: () => void;
   setBySlug: (slug: string) => void;
+  setView: (view: ViewPreset, animate?: boolean) => void;
+  setAutoRotate: (on: boolean) => void;
+  resetView: () => void;
+  /** Turn the camera round the target, in degrees (keyboard orbit) */
+  orbit: (left: number, up: number) => void;
+  /** > 1 moves closer, < 1 further away */
+  zoom: (factor: number) => void;
+  focus: () => void;
+  /**
+   * Listen for clicks on the muscles of a `muscleSlugs` set; the slug of the
+   * one clicked is passed on. Returns a function that stops listening.
+   */
+  onPick: (listener: (slug: string) => void) => () => void;
 };
 
+/** Standard anatomical views (the body faces +Z; its left is +X) */
+export type ViewPreset =
+  | "anterior"
+  | "posterior"
+  | "left"
+  | "right"
+  | "superior"
+  | "inferior";
+
+const VIEWS: Array<{ id: ViewPreset; label: string; dir: THREE.Vector3 }> = [
+  { id: "anterior", label: "Ant", dir: new THREE.Vector3(0, 0, 1) },
+  { id: "posterior", label: "Post", dir: new THREE.Vector3(0, 0, -1) },
+  { id: "left", label: "L", dir: new THREE.Vector3(1, 0, 0) },
+  { id: "right", label: "R", dir: new THREE.Vector3(-1, 0, 0) },
+  // a hair off the pole so OrbitControls keeps a sensible "up"
+  { id: "superior", label: "Sup", dir: new THREE.Vector3(0, 1, 1e-3) },
+  { id: "inferior", label: "Inf", dir: new THREE.Vector3(0, -1, 1e-3) },
+];
+
+const TWEEN_MS = 600;
+
+// gizmo axes: direction in model space + label
+const GIZMO_AXES = [
+  { key: "A", dir: new THREE.Vector3(0, 0, 1), color: "#34d399" },
+  { key: "S", dir: new THREE.Vector3(0, 1, 0), color: "#60a5fa" },
+  { key: "L", dir: new THREE.Vector3(1, 0, 0), color: "#f87171" },
+];
+
+/** Feedback colour for a clicked muscle */
+export type PickMark = "correct" | "wrong";
+
 type Props = {
   onChange?: (path: string, slug: string) => void;
   muscleSlug?: string | null; // if provided, show this slug
+  // a model outside the manifest, e.g. the Daily's (its name would be a spoiler)
+  modelUrl?: string | null;
+  // load all of these instead of the single muscle (click-to-identify)
+  muscleSlugs?: string[] | null;
+  marks?: Record<string, PickMark>; // recolour picked muscles
+  contextSlugs?: string[] | null; // faint, unclickable neighbours for orientation
+  prefetchSlugs?: string[]; // download + parse ahead, e.g. the next Study card
+  display?: DisplaySettings; // colours, skeleton opacity, wireframe, isolate
 };
 
-// "/models/pectoralis-major.glb" -> "pectoralis-major"
-function pathToSlug(path: string): string {
-  const base = path.split("/").pop() || "";
-  return base.replace(/\.glb$/i, "");
-}
-
 // Extend OrbitControls to optionally support zoomToCursor without `any`
 type ZoomToCursorControls = OrbitControls & { zoomToCursor?: boolean };
 
+/** What the model-swap effect needs from the long-lived scene */
+type Stage = {
+  muscles: THREE.Group;
+  ghosts: THREE.Group;
+  skeletonReady: Promise<void>;
+  frame: () => void;
+  flyTo: (view: ViewPreset | "home", animate: boolean) => void;
+  setAutoRotate: (on: boolean) => void;
+  orbit: (left: number, up: number) => void;
+  zoom: (factor: number) => void;
+  canvas: HTMLCanvasElement;
+};
+
+function disposeMaterials(root: THREE.Object3D) {
+  root.traverse((obj: THREE.Object3D) => {
+    if ((obj as THREE.Mesh).isMesh) {
+      const mat = (obj as THREE.Mesh).material;
+      if (Array.isArray(mat)) {
+        mat.forEach((m) => m.dispose());
+      } else if (mat) {
+        mat.dispose();
+      }
+    }
+  });
+}
+
 const MuscleViewer = forwardRef<MuscleViewerHandle, Props>(
-  function MuscleViewer({ onChange, muscleSlug }, ref) {
+  function MuscleViewer(
+    {
+      onChange,
+      muscleSlug,
+      modelUrl,
+      muscleSlugs,
+      marks,
+      contextSlugs,
+      prefetchSlugs,
+      display = DEFAULT_DISPLAY,
+    },
+    ref
+  ) {
     const containerRef = useRef<HTMLDivElement | null>(null);
+    // one material per loaded muscle, so marks recolour without a reload
+    const materialsRef = useRef(new Map<string, THREE.MeshStandardMaterial>());
+    const marksRef = useRef(marks);
+    const displayRef = useRef(display);
+    displayRef.current = display;
+    // shared by every skeleton mesh / every neighbour mesh
+    const skeletonMatRef = useRef<THREE.MeshStandardMaterial | null>(null);
+    const ghostMatRef = useRef<THREE.MeshStandardMaterial | null>(null);
+    // handle.onPick listeners, told about clicks on a multi-muscle set
+    const pickListenersRef = useRef(new Set<(slug: string) => void>());
+    const pickableRef = useRef(false);
+    pickableRef.current = !!muscleSlugs;
+    const stageRef = useRef<Stage | null>(null);
+    // releases the cache's hold on the models in the scene
+    const releaseShownRef = useRef<(() => void) | null>(null);
 
     const [list, setList] = useState<string[]>([]);
     const [muscleUrl, setMuscleUrl] = useState<string | null>(null);
@@ -42,42 +156,98 @@ const MuscleViewer = forwardRef<MuscleViewerHandle, Props>(
     // NEW: UI states
     const [isLoading, setIsLoading] = useState<boolean>(true);
     const [error, setError] = useState<string>("");
+    // models loaded so far when a whole set is on its way (Locate, Reverse)
+    const [progress, setProgress] = useState<{
+      done: number;
+      total: number;
+    } | null>(null);
 
-    function pickRandom(from?: string[]) {
-      const pool = from ?? list;
-      if (!pool || pool.length === 0) return;
+    // the next random pick, chosen early so it can be prefetched
+    const upcomingRef = useRef<string | null>(null);
+
+    function randomOther(pool: string[], avoid: string | null): string {
       let pick: string;
       do {
         pick = pool[Math.floor(Math.random() * pool.length)];
-      } while (pool.length > 1 && pick === lastUrl);
+      } while (pool.length > 1 && pick === avoid);
+      return pick;
+    }
+
+    function pickRandom(from?: string[]) {
+      const pool = from ?? list;
+      if (!pool || pool.length === 0) return;
+      const queued = upcomingRef.current;
+      const pick =
+        queued && pool.includes(queued) && queued !== lastUrl
+          ? queued
+          : randomOther(pool, lastUrl);
       setLastUrl(pick);
       setMuscleUrl(pick);
-      onChange?.(pick, pathToSlug(pick));
+      onChange?.(pick, urlToSlug(pick));
+
+      upcomingRef.current = randomOther(pool, pick);
+      prefetchModel(upcomingRef.current);
     }
 
     function setBySlug(slug: string) {
       if (!list.length) return;
       const want = slug.toLowerCase();
-      const found = list.find((p) => pathToSlug(p).toLowerCase() === want);
+      const found = list.find((p) => urlToSlug(p).toLowerCase() === want);
       if (found) {
         setLastUrl(found);
         setMuscleUrl(found);
-        onChange?.(found, pathToSlug(found));
+        onChange?.(found, urlToSlug(found));
       }
     }
 
+    const [autoRotate, setAutoRotateState] = useState(true);
+    const autoRotateRef = useRef(autoRotate);
+    autoRotateRef.current = autoRotate;
+    const gizmoRef = useRef<SVGSVGElement | null>(null);
+
+    const setAutoRotate = (on: boolean) => {
+      setAutoRotateState(on);
+      stageRef.current?.setAutoRotate(on);
+    };
+
+    // a preset stops the spin, or it would drift straight off the view
+    const setView = (view: ViewPreset, animate = true) => {
+      setAutoRotate(false);
+      stageRef.current?.flyTo(view, animate);
+    };
+
+    const resetView = () => stageRef.current?.flyTo("home", true);
+
     useImperativeHandle(ref, () => ({
       next: () => pickRandom(),
       setBySlug,
+      setView,
+      setAutoRotate,
+      resetView,
+      orbit: (left, up) => stageRef.current?.orbit(left, up),
+      zoom: (factor) => stageRef.current?.zoom(factor),
+      focus: () => stageRef.current?.canvas.focus(),
+      onPick: (listener) => {
+        const listeners = pickListenersRef.current;
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
     }));
 
     // load manifest once
     useEffect(() => {
       setError("");
-      fetch(`/models/manifest.json?bust=${Date.now()}`, { cache: "no-store" })
+      // no-cache revalidates with the server when online; offline, the
+      // service worker answers from its copy
+      fetch("/models/manifest.json", { cache: "no-cache" })
         .then((r) => r.json())
-        .then((files: string[]) => {
-          const pool = (files || []).filter((p) => !/skeleton\.glb$/i.test(p));
+        .then((manifest: ModelManifest) => {
+          // only muscles the availability registry says can be shown
+          const pool = (manifest?.models ?? [])
+            .filter((m) => isPlayable(m.slug))
+            .map((m) => m.url);
           setList(pool);
           // initial pick (respect muscleSlug if given)
           if (pool.length > 0) {
@@ -86,7 +256,6 @@ const MuscleViewer = forwardRef<MuscleViewerHandle, Props>(
           }
         })
         .catch((e) => {
-          // eslint-disable-next-line no-console
           console.error(e);
           setError("Failed to load model list.");
         });
@@ -99,15 +268,54 @@ const MuscleViewer = forwardRef<MuscleViewerHandle, Props>(
       // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [muscleSlug, list.length]);
 
-    // --- Three.js rendering ---
-    useEffect(() => {
-      if (!muscleUrl) return;
+    const paintMarks = () => {
+      const { palette, wireframe } = displayRef.current;
+      const colors = PALETTES[palette];
+      materialsRef.current.forEach((mat, slug) => {
+        const mark = marksRef.current?.[slug];
+        mat.color.setHex(mark ? colors[mark] : colors.muscle);
+        mat.wireframe = wireframe;
+      });
+    };
+
+    // the skeleton's opacity is eased towards its target in the render loop
+    const paintScenery = () => {
+      const d = displayRef.current;
+      const colors = PALETTES[d.palette];
+      skeletonMatRef.current?.color.setHex(colors.skeleton);
+      if (ghostMatRef.current) {
+        ghostMatRef.current.color.setHex(colors.ghost);
+        ghostMatRef.current.visible = !d.isolate;
+      }
+    };
 
-      // show loader while (re)loading models
-      setIsLoading(true);
-      setError("");
+    useEffect(() => {
+      marksRef.current = marks;
+      paintMarks();
+    }, [marks]);
 
+    useEffect(() => {
+      paintMarks();
+      paintScenery();
+    }, [display]);
+
+    // models to show: every requested muscle, or just the current one
+    const urls = muscleSlugs
+      ? list.filter((p) => muscleSlugs.includes(urlToSlug(p)))
+      : modelUrl
+      ? [modelUrl]
+      : muscleUrl
+      ? [muscleUrl]
+      : [];
+    const ghostUrls = (contextSlugs ?? [])
+      .map((slug) => list.find((p) => urlToSlug(p) === slug))
+      .filter((p): p is string => !!p && !urls.includes(p));
+    const urlsKey = [...urls, "ghosts", ...ghostUrls].join("|");
+
+    // --- Three.js stage: created once, kept for the life of the viewer ---
+    useEffect(() => {
       const el = containerRef.current!;
+      const materials = materialsRef.current;
       const w = el.clientWidth;
       const h = el.clientHeight;
 
@@ -116,6 +324,15 @@ const MuscleViewer = forwardRef<MuscleViewerHandle, Props>(
       renderer.setSize(w, h);
       el.appendChild(renderer.domElement);
       const canvas = renderer.domElement;
+      // focusable so keyboard users can reach it (keys are handled by the page)
+      canvas.tabIndex = 0;
+      canvas.setAttribute("role", "img");
+      canvas.setAttribute(
+        "aria-label",
+        "3D anatomy model. Arrow keys rotate, plus and minus zoom."
+      );
+      canvas.className =
+        "block outline-none focus-visible:ring-2 focus-visible:ring-emerald-400 focus-visible:ring-inset";
 
       const scene = new THREE.Scene();
       scene.background = new THREE.Color(0x111111);
@@ -133,15 +350,24 @@ const MuscleViewer = forwardRef<MuscleViewerHandle, Props>(
       controls.screenSpacePanning = true;
       controls.rotateSpeed = 1.0;
       controls.panSpeed = 1.2;
-      controls.autoRotate = true;
+      controls.autoRotate = autoRotateRef.current;
       controls.autoRotateSpeed = 0.6;
       controls.enableZoom = true;
       // optional property on some OrbitControls builds:
       controls.zoomSpeed = 1.0;
 
+      // touch: one finger rotates, two pinch-zoom and pan together
+      controls.touches = {
+        ONE: THREE.TOUCH.ROTATE,
+        TWO: THREE.TOUCH.DOLLY_PAN,
+      };
+
       let dragMode: "rotate" | "pan" | null = null;
       let sx = 0;
       let sy = 0;
+      // pointers currently down; a second finger means a gesture, not a tap
+      const pointers = new Set<number>();
+      let multiTouch = false;
       const setLeftToRotate = () => {
         controls.mouseButtons.LEFT = THREE.MOUSE.ROTATE;
       };
@@ -150,20 +376,60 @@ const MuscleViewer = forwardRef<MuscleViewerHandle, Props>(
       };
       setLeftToRotate();
 
+      scene.add(new THREE.HemisphereLight(0xffffff, 0x222222, 0.8));
+      const dir = new THREE.DirectionalLight(0xffffff, 1.0);
+      dir.position.set(2, 2, 3);
+      scene.add(dir);
+
+      const root = new THREE.Group();
+      scene.add(root);
+      const muscles = new THREE.Group();
+      root.add(muscles);
+      // outside `root` so they neither shift the framing nor catch clicks
+      const ghosts = new THREE.Group();
+      scene.add(ghosts);
+
+      const raycaster = new THREE.Raycaster();
+      const pickAt = (x: number, y: number) => {
+        const rect = canvas.getBoundingClientRect();
+        const ndc = new THREE.Vector2(
+          ((x - rect.left) / rect.width) * 2 - 1,
+          -((y - rect.top) / rect.height) * 2 + 1
+        );
+        raycaster.setFromCamera(ndc, camera);
+        const hit = raycaster.intersectObject(muscles, true)[0];
+        const slug = hit?.object.userData.slug as string | undefined;
+        if (slug) pickListenersRef.current.forEach((l) => l(slug));
+      };
+
       // Use named handlers so add/remove get the same reference
       const onPointerDown = (e: PointerEvent) => {
         if (e.button !== 0) return;
+        pointers.add(e.pointerId);
+        if (pointers.size > 1) {
+          multiTouch = true;
+          return;
+        }
+        multiTouch = false;
         dragMode = null;
         sx = e.clientX;
         sy = e.clientY;
         canvas.setPointerCapture(e.pointerId);
       };
       const onPointerMove = (e: PointerEvent) => {
-        if ((e.buttons & 1) === 0) return;
+        if ((e.buttons & 1) === 0 || pointers.size > 1) return;
         if (!dragMode) {
           const dx = e.clientX - sx;
           const dy = e.clientY - sy;
-          if (Math.hypot(dx, dy) < 4) return;
+          if (Math.hypot(dx, dy) < (e.pointerType === "mouse" ? 4 : 10)) {
+            return;
+          }
+          // touch keeps OrbitControls' own gestures; the direction guess is
+          // for a mouse, which has no second finger to pan with
+          if (e.pointerType !== "mouse") {
+            dragMode = "rotate";
+            return;
+          }
           dragMode = Math.abs(dy) > Math.abs(dx) ? "pan" : "rotate";
           if (dragMode === "pan") {
             setLeftToPan();
@@ -174,6 +440,18 @@ const MuscleViewer = forwardRef<MuscleViewerHandle, Props>(
       };
       const onPointerUp = (e: PointerEvent) => {
         if (e.button !== 0) return;
+        pointers.delete(e.pointerId);
+        if (pointers.size > 0) return;
+        // no drag started, so this was a click: report the muscle under it
+        if (!dragMode && !multiTouch && pickableRef.current) {
+          pickAt(e.clientX, e.clientY);
+        }
+        dragMode = null;
+        multiTouch = false;
+        setLeftToRotate();
+      };
+      const onPointerCancel = (e: PointerEvent) => {
+        pointers.delete(e.pointerId);
         dragMode = null;
         setLeftToRotate();
       };
@@ -182,24 +460,129 @@ const MuscleViewer = forwardRef<MuscleViewerHandle, Props>(
       canvas.addEventListener("pointerdown", onPointerDown);
       canvas.addEventListener("pointermove", onPointerMove);
       canvas.addEventListener("pointerup", onPointerUp);
+      canvas.addEventListener("pointercancel", onPointerCancel);
       canvas.addEventListener("contextmenu", onContextMenu);
 
-      scene.add(new THREE.HemisphereLight(0xffffff, 0x222222, 0.8));
-      const dir = new THREE.DirectionalLight(0xffffff, 1.0);
-      dir.position.set(2, 2, 3);
-      scene.add(dir);
-
-      const root = new THREE.Group();
-      scene.add(root);
-
       let panBox: THREE.Box3 | null = null;
       const ORIGIN = new THREE.Vector3(0, 0, 0);
-      let loaded = 0;
 
-      const tryFrame = () => {
-        if (loaded < 2) return;
+      // where frame() put the camera, for presets and "reset view"
+      const home = { target: new THREE.Vector3(), dist: 1 };
+      // a view asked for before the first frame, applied once framed
+      let pendingView: ViewPreset | null = null;
+      let framed = false;
+
+      type Tween = {
+        from: THREE.Spherical;
+        to: THREE.Spherical;
+        fromTarget: THREE.Vector3;
+        toTarget: THREE.Vector3;
+        start: number;
+      };
+      let tween: Tween | null = null;
+
+      const flyTo = (view: ViewPreset | "home", animate: boolean) => {
+        if (!framed) {
+          if (view !== "home") pendingView = view;
+          return;
+        }
+        // presets keep the current zoom; "home" restores the framing
+        const dist =
+          view === "home"
+            ? home.dist
+            : camera.position.distanceTo(controls.target);
+        const dir =
+          view === "home"
+            ? VIEWS[0].dir
+            : VIEWS.find((v) => v.id === view)!.dir;
+        const to = new THREE.Spherical().setFromVector3(
+          dir.clone().normalize().multiplyScalar(dist)
+        );
+        const from = new THREE.Spherical().setFromVector3(
+          camera.position.clone().sub(controls.target)
+        );
+        // turn the short way round
+        if (to.theta - from.theta > Math.PI) to.theta -= 2 * Math.PI;
+        if (from.theta - to.theta > Math.PI) to.theta += 2 * Math.PI;
+
+        tween = {
+          from,
+          to,
+          fromTarget: controls.target.clone(),
+          toTarget: home.target.clone(),
+          start: performance.now(),
+        };
+        if (!animate) tween.start -= TWEEN_MS;
+      };
+
+      const stepTween = (now: number) => {
+        if (!tween) return;
+        const t = Math.min(1, (now - tween.start) / TWEEN_MS);
+        const k = t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+        const s = new THREE.Spherical(
+          THREE.MathUtils.lerp(tween.from.radius, tween.to.radius, k),
+          THREE.MathUtils.lerp(tween.from.phi, tween.to.phi, k),
+          THREE.MathUtils.lerp(tween.from.theta, tween.to.theta, k)
+        );
+        controls.target.lerpVectors(tween.fromTarget, tween.toTarget, k);
+        camera.position.setFromSpherical(s).add(controls.target);
+        camera.lookAt(controls.target);
+        if (t >= 1) tween = null;
+      };
+
+      const setAutoRotateStage = (on: boolean) => {
+        controls.autoRotate = on;
+      };
 
-        // 1) Measure the scene as loaded
+      const orbit = (left: number, up: number) => {
+        tween = null;
+        const offset = camera.position.clone().sub(controls.target);
+        const s = new THREE.Spherical().setFromVector3(offset);
+        s.theta -= THREE.MathUtils.degToRad(left);
+        s.phi = THREE.MathUtils.clamp(
+          s.phi - THREE.MathUtils.degToRad(up),
+          0.01,
+          Math.PI - 0.01
+        );
+        camera.position.setFromSpherical(s).add(controls.target);
+      };
+
+      const zoom = (factor: number) => {
+        tween = null;
+        const offset = camera.position.clone().sub(controls.target);
+        const len = THREE.MathUtils.clamp(
+          offset.length() / factor,
+          controls.minDistance,
+          controls.maxDistance
+        );
+        camera.position.copy(controls.target).add(offset.setLength(len));
+      };
+
+      const gizmoDir = new THREE.Vector3();
+      const updateGizmo = () => {
+        const svg = gizmoRef.current;
+        if (!svg) return;
+        const inv = camera.quaternion.clone().invert();
+        for (const axis of GIZMO_AXES) {
+          gizmoDir.copy(axis.dir).applyQuaternion(inv);
+          const x = 32 + gizmoDir.x * 22;
+          const y = 32 - gizmoDir.y * 22;
+          const line = svg.querySelector(`[data-axis="${axis.key}"] line`);
+          const label = svg.querySelector(`[data-axis="${axis.key}"] text`);
+          line?.setAttribute("x2", x.toFixed(1));
+          line?.setAttribute("y2", y.toFixed(1));
+          label?.setAttribute("x", (32 + gizmoDir.x * 28).toFixed(1));
+          label?.setAttribute("y", (32 - gizmoDir.y * 28 + 3).toFixed(1));
+          // pointing away from the viewer: fade it
+          svg
+            .querySelector(`[data-axis="${axis.key}"]`)
+            ?.setAttribute("opacity", gizmoDir.z < -0.1 ? "0.35" : "1");
+        }
+      };
+
+      const frame = () => {
+        // 1) Measure the scene as loaded (from an un-shifted root)
+        root.position.set(0, 0, 0);
         const preBox = new THREE.Box3().setFromObject(root);
         const sphere = new THREE.Sphere();
         preBox.getBoundingSphere(sphere);
@@ -208,6 +591,7 @@ const MuscleViewer = forwardRef<MuscleViewerHandle, Props>(
         const yLift = 0.12 * sphere.radius; // tweak this value to taste
         root.position.sub(sphere.center); // center to (0,0,0)
         root.position.y += yLift; // lift the whole model up
+        ghosts.position.copy(root.position);
 
         // 3) Controls look-at point should match the lifted height
         controls.target.set(0, yLift, 0);
@@ -228,77 +612,82 @@ const MuscleViewer = forwardRef<MuscleViewerHandle, Props>(
         const postBox = new THREE.Box3().setFromObject(root);
         panBox = postBox.clone().expandByScalar(0.1 * sphere.radius);
 
-        // 6) hide loader
-        setIsLoading(false);
+        home.target.copy(controls.target);
+        home.dist = Math.min(dist, controls.maxDistance);
+        tween = null;
+        framed = true;
+        if (pendingView) flyTo(pendingView, false);
+        pendingView = null;
       };
 
-      const loader = new GLTFLoader();
-
+      // the skeleton is parsed once and stays in the scene
       const colorSkeleton = new THREE.MeshStandardMaterial({
-        color: 0x444444,
+        color: PALETTES[displayRef.current.palette].skeleton,
         roughness: 1,
         metalness: 0,
         transparent: true,
-        opacity: 0.6,
-      });
-
-      const colorMuscle = new THREE.MeshStandardMaterial({
-        color: 0xc84d4d,
-        roughness: 0.9,
-        metalness: 0,
+        opacity: skeletonTargetOpacity(displayRef.current),
       });
-
-      const onLoadError = (what: string) => (e: unknown) => {
-        console.error(`Failed to load ${what}`, e);
-        setError(`Failed to load ${what}.`);
-        setIsLoading(false);
+      skeletonMatRef.current = colorSkeleton;
+      const fadeSkeleton = () => {
+        const target = skeletonTargetOpacity(displayRef.current);
+        const diff = target - colorSkeleton.opacity;
+        colorSkeleton.opacity =
+          Math.abs(diff) < 0.005 ? target : colorSkeleton.opacity + diff * 0.15;
+        colorSkeleton.visible = colorSkeleton.opacity > 0.005;
+        // a nearly-clear skeleton shouldn't hide the muscle behind it
+        colorSkeleton.depthWrite = colorSkeleton.opacity > 0.3;
       };
-
-      loader.load(
-        "/models/skeleton.glb",
-        (gltf: GLTF) => {
-          gltf.scene.traverse((obj: THREE.Object3D) => {
+      const skeletonReady = loadModel(SKELETON_URL).then(
+        (skeleton) => {
+          skeleton.traverse((obj: THREE.Object3D) => {
             if ((obj as THREE.Mesh).isMesh) {
               const mesh = obj as THREE.Mesh;
               mesh.material = colorSkeleton;
             }
           });
-          root.add(gltf.scene);
-          loaded++;
-          tryFrame();
+          root.add(skeleton);
         },
-        undefined,
-        onLoadError("skeleton")
+        (e) => {
+          console.error("Failed to load skeleton", e);
+          setError("Failed to load skeleton.");
+        }
       );
 
-      loader.load(
-        muscleUrl,
-        (gltf: GLTF) => {
-          gltf.scene.traverse((obj: THREE.Object3D) => {
-            if ((obj as THREE.Mesh).isMesh) {
-              const mesh = obj as THREE.Mesh;
-              mesh.material = colorMuscle;
-            }
-          });
-          root.add(gltf.scene);
-          loaded++;
-          tryFrame();
-        },
-        undefined,
-        onLoadError("muscle model")
-      );
+      stageRef.current = {
+        muscles,
+        ghosts,
+        skeletonReady,
+        frame,
+        flyTo,
+        setAutoRotate: setAutoRotateStage,
+        orbit,
+        zoom,
+        canvas,
+      };
 
+      // follow the container, not the window: the mobile sheet resizes it
       const onResize = () => {
         const W = el.clientWidth;
         const H = el.clientHeight;
+        if (!W || !H) return; // hidden or collapsed
         renderer.setSize(W, H);
         camera.aspect = W / H;
         camera.updateProjectionMatrix();
       };
-      window.addEventListener("resize", onResize);
+      const resizeObserver = new ResizeObserver(onResize);
+      resizeObserver.observe(el);
 
       let raf = 0;
-      const loop = () => {
+      const loop = (now: number = performance.now()) => {
+        fadeSkeleton();
+        if (tween) {
+          stepTween(now);
+          renderer.render(scene, camera);
+          updateGizmo();
+          raf = requestAnimationFrame(loop);
+          return;
+        }
         if (panBox) {
           controls.target.set(
             THREE.MathUtils.clamp(
@@ -320,44 +709,146 @@ const MuscleViewer = forwardRef<MuscleViewerHandle, Props>(
         }
         controls.update();
         renderer.render(scene, camera);
+        updateGizmo();
         raf = requestAnimationFrame(loop);
       };
       loop();
 
       return () => {
+        stageRef.current = null;
         cancelAnimationFrame(raf);
-        window.removeEventListener("resize", onResize);
+        resizeObserver.disconnect();
         canvas.removeEventListener("pointerdown", onPointerDown);
         canvas.removeEventListener("pointermove", onPointerMove);
         canvas.removeEventListener("pointerup", onPointerUp);
+        canvas.removeEventListener("pointercancel", onPointerCancel);
         canvas.removeEventListener("contextmenu", onContextMenu);
+        controls.dispose();
 
         if (renderer.domElement.parentElement === el) {
           el.removeChild(renderer.domElement);
         }
         renderer.dispose();
 
-        // Dispose materials & geometries without `any`
-        scene.traverse((obj: THREE.Object3D) => {
-          if ((obj as THREE.Mesh).isMesh) {
-            const mesh = obj as THREE.Mesh;
-            if (mesh.geometry) mesh.geometry.dispose();
-            const mat = mesh.material;
-            if (Array.isArray(mat)) {
-              mat.forEach((m) => m.dispose());
-            } else if (mat) {
-              mat.dispose();
+        // materials only: geometry belongs to the model cache
+        colorSkeleton.dispose();
+        disposeMaterials(scene);
+        materials.clear();
+        releaseShownRef.current?.();
+        releaseShownRef.current = null;
+      };
+    }, []);
+
+    // --- swap the shown muscles; cached models appear on the next frame ---
+    useEffect(() => {
+      const stage = stageRef.current;
+      if (!stage || !urls.length) return;
+      let cancelled = false;
+
+      if (![...urls, ...ghostUrls].every(isModelReady)) setIsLoading(true);
+      setError("");
+      const total = urls.length;
+      setProgress(total > 1 ? { done: 0, total } : null);
+      // the old set stays held while it's still on screen
+      const release = holdModels([...urls, ...ghostUrls]);
+      let shown = false;
+
+      Promise.all([
+        stage.skeletonReady,
+        loadModels(urls, (done) => {
+          if (!cancelled && total > 1) setProgress({ done, total });
+        }),
+        loadModels(ghostUrls),
+      ]).then(([, loaded, context]) => {
+        if (cancelled) return;
+        setProgress(null);
+        releaseShownRef.current?.();
+        releaseShownRef.current = release;
+        shown = true;
+
+        // drop the previous muscles (their materials are ours to dispose)
+        disposeMaterials(stage.muscles);
+        disposeMaterials(stage.ghosts);
+        stage.muscles.clear();
+        stage.ghosts.clear();
+        const materials = materialsRef.current;
+        materials.clear();
+
+        loaded.forEach((r, i) => {
+          if (r.status === "rejected") {
+            console.error("Failed to load muscle model", r.reason);
+            setError("Failed to load muscle model.");
+            return;
+          }
+          const slug = urlToSlug(urls[i]);
+          const material = new THREE.MeshStandardMaterial({
+            roughness: 0.9,
+            metalness: 0,
+          });
+          materials.set(slug, material);
+          r.value.traverse((obj: THREE.Object3D) => {
+            if ((obj as THREE.Mesh).isMesh) {
+              const mesh = obj as THREE.Mesh;
+              mesh.material = material;
+              mesh.userData.slug = slug; // read back by raycast picks
             }
+          });
+          stage.muscles.add(r.value);
+        });
+        paintMarks();
+
+        const colorGhost = new THREE.MeshStandardMaterial({
+          roughness: 1,
+          metalness: 0,
+          transparent: true,
+          opacity: 0.18,
+          depthWrite: false,
+        });
+        ghostMatRef.current = colorGhost;
+        paintScenery();
+        context.forEach((r) => {
+          if (r.status === "rejected") {
+            console.error("Failed to load context model", r.reason);
+            return;
           }
+          r.value.traverse((obj: THREE.Object3D) => {
+            if ((obj as THREE.Mesh).isMesh) {
+              (obj as THREE.Mesh).material = colorGhost;
+            }
+          });
+          stage.ghosts.add(r.value);
         });
+
+        stage.frame();
+        setIsLoading(false);
+      });
+
+      return () => {
+        cancelled = true;
+        // never made it to the scene
+        if (!shown) release();
       };
-    }, [muscleUrl]);
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [urlsKey]);
+
+    // warm the cache with what's likely to be shown next
+    const prefetchKey = (prefetchSlugs ?? []).join("|");
+    useEffect(() => {
+      (prefetchSlugs ?? []).forEach((slug) => {
+        const url = list.find((p) => urlToSlug(p) === slug);
+        if (url) prefetchModel(url);
+      });
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [prefetchKey, list]);
 
     return (
-      <div ref={containerRef} className="relative w-full h-[100vh]">
+      <div
+        ref={containerRef}
+        className="relative w-full h-full overflow-hidden"
+      >
         {/* Loading overlay */}
         {isLoading && (
-          <div className="absolute inset-0 flex items-center justify-center bg-black/40 z-10 backdrop-blur-[1px]">
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-black/40 z-10 backdrop-blur-[1px]">
             <svg
               className="animate-spin h-10 w-10 text-white"
               xmlns="http://www.w3.org/2000/svg"
@@ -379,6 +870,11 @@ const MuscleViewer = forwardRef<MuscleViewerHandle, Props>(
                 d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z"
               />
             </svg>
+            {progress && (
+              <div className="text-xs text-slate-200 tabular-nums">
+                Loading muscles {progress.done}/{progress.total}
+              </div>
+            )}
           </div>
         )}
 
@@ -388,6 +884,76 @@ const MuscleViewer = forwardRef<MuscleViewerHandle, Props>(
             {error}
           </div>
         )}
+
+        {/* View controls */}
+        <div
+          role="toolbar"
+          aria-label="Camera"
+          className="absolute bottom-3 left-3 z-10 flex flex-wrap items-center gap-1 rounded-lg bg-slate-900/70 border border-slate-700/50 p-1 text-xs text-slate-200 backdrop-blur-sm"
+        >
+          {VIEWS.map((v) => (
+            <button
+              key={v.id}
+              onClick={() => setView(v.id)}
+              className="px-2 py-1 rounded hover:bg-slate-700/70"
+              aria-label={`${v.id} view`}
+              title={`${v.id[0].toUpperCase()}${v.id.slice(1)} view`}
+            >
+              {v.label}
+            </button>
+          ))}
+          <span className="w-px h-4 bg-slate-600 mx-0.5" />
+          <button
+            onClick={() => setAutoRotate(!autoRotate)}
+            className="px-2 py-1 rounded hover:bg-slate-700/70"
+            aria-pressed={autoRotate}
+            aria-label="Auto-rotate"
+            title={autoRotate ? "Pause rotation" : "Resume rotation"}
+          >
+            {autoRotate ? "⏸" : "⟳"}
+          </button>
+          <button
+            onClick={resetView}
+            className="px-2 py-1 rounded hover:bg-slate-700/70"
+            aria-label="Reset view"
+            title="Reset view"
+          >
+            ⌂
+          </button>
+        </div>
+
+        {/* Orientation gizmo: A(nterior), S(uperior), L(eft) */}
+        <svg
+          ref={gizmoRef}
+          className="absolute bottom-3 right-3 z-10 w-16 h-16 pointer-events-none"
+          viewBox="0 0 64 64"
+          aria-hidden="true"
+        >
+          <circle cx="32" cy="32" r="30" fill="rgba(15,23,42,0.6)" />
+          {GIZMO_AXES.map((a) => (
+            <g key={a.key} data-axis={a.key}>
+              <line
+                x1="32"
+                y1="32"
+                x2="32"
+                y2="32"
+                stroke={a.color}
+                strokeWidth="2.5"
+                strokeLinecap="round"
+              />
+              <text
+                x="32"
+                y="32"
+                fill={a.color}
+                fontSize="9"
+                fontWeight="bold"
+                textAnchor="middle"
+              >
+                {a.key}
+              </text>
+            </g>
+          ))}
+        </svg>
       </div>
     );
   }
@@ -0,0 +1,91 @@
+// components/OfflineDownload.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  downloadAllModels,
+  getOfflineProgress,
+  offlineSupported,
+  type OfflineProgress,
+} from "../../lib/offline";
+
+const mb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+export default function OfflineDownload() {
+  const [supported, setSupported] = useState(false);
+  const [progress, setProgress] = useState<OfflineProgress | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!offlineSupported()) return;
+    setSupported(true);
+    getOfflineProgress()
+      .then(setProgress)
+      .catch(() => {});
+  }, []);
+
+  if (!supported) return null;
+
+  const complete = !!progress && progress.done >= progress.total;
+  const pct = progress
+    ? Math.round((progress.bytes / Math.max(1, progress.totalBytes)) * 100)
+    : 0;
+
+  const start = async () => {
+    setBusy(true);
+    setFailed(false);
+    try {
+      setFailed(!(await downloadAllModels(setProgress)));
+    } catch {
+      setFailed(true);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (complete) {
+    return (
+      <div className="bg-emerald-500/10 border border-emerald-500/30 rounded-lg px-3 py-2 text-emerald-300 text-sm">
+        ✅ Available offline (except the Daily)
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <button
+        onClick={start}
+        disabled={busy}
+        className="px-3 py-2 rounded-lg border border-slate-600/50 text-slate-200 hover:bg-slate-700/50
+                 disabled:opacity-60 disabled:cursor-wait"
+        title="Save every 3D model so the app works without a connection. The Daily still needs one."
+      >
+        {busy ? "Downloading…" : "⬇️ Download for offline"}
+      </button>
+      {(busy || (progress && progress.done > 0)) && progress && (
+        <div className="flex items-center gap-2 text-slate-300">
+          <div
+            className="w-32 h-2 rounded-full bg-slate-700 overflow-hidden"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={pct}
+            aria-label="Offline download progress"
+          >
+            <div
+              className="h-full bg-emerald-500 transition-all duration-200"
+              style={{ width: `${pct}%` }}
+            />
+          </div>
+          <span>
+            {mb(progress.bytes)} / {mb(progress.totalBytes)} MB
+          </span>
+        </div>
+      )}
+      {failed && !busy && (
+        <span className="text-amber-300">Some files failed — try again</span>
+      )}
+    </div>
+  );
+}
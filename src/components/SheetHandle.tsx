@@ -0,0 +1,89 @@
+// components/SheetHandle.tsx
+"use client";
+
+import { useRef, type RefObject } from "react";
+
+type Props = {
+  /** Share of the container the viewer takes, in percent */
+  viewerPct: number;
+  onChange: (pct: number) => void;
+  /** The stacked viewer + sheet, measured while dragging */
+  containerRef: RefObject<HTMLElement | null>;
+};
+
+// viewer heights the sheet settles on: sheet expanded, half, peeking
+const SNAPS = [25, 55, 85];
+const MIN_PCT = 15;
+const MAX_PCT = 90;
+
+const nearest = (pct: number) =>
+  SNAPS.reduce((a, b) => (Math.abs(b - pct) < Math.abs(a - pct) ? b : a));
+
+/**
+ * Grab bar on top of the mobile guess sheet. Drag it to resize the viewer
+ * above; a tap steps through the snap points.
+ */
+export default function SheetHandle({
+  viewerPct,
+  onChange,
+  containerRef,
+}: Props) {
+  const drag = useRef<{ y: number; moved: boolean } | null>(null);
+
+  const pctAt = (clientY: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || !rect.height) return viewerPct;
+    const pct = ((clientY - rect.top) / rect.height) * 100;
+    return Math.min(MAX_PCT, Math.max(MIN_PCT, pct));
+  };
+
+  return (
+    <div
+      role="separator"
+      aria-orientation="horizontal"
+      aria-label="Resize the 3D viewer"
+      aria-valuemin={MIN_PCT}
+      aria-valuemax={MAX_PCT}
+      aria-valuenow={Math.round(viewerPct)}
+      tabIndex={0}
+      className="md:hidden flex justify-center py-2 cursor-row-resize touch-none select-none
+                 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-400 rounded-t-2xl"
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        drag.current = { y: e.clientY, moved: false };
+      }}
+      onPointerMove={(e) => {
+        const d = drag.current;
+        if (!d) return;
+        if (!d.moved && Math.abs(e.clientY - d.y) < 5) return;
+        d.moved = true;
+        onChange(pctAt(e.clientY));
+      }}
+      onPointerUp={(e) => {
+        const d = drag.current;
+        drag.current = null;
+        if (!d) return;
+        if (d.moved) {
+          onChange(nearest(pctAt(e.clientY)));
+        } else {
+          const i = SNAPS.indexOf(nearest(viewerPct));
+          onChange(SNAPS[(i + 1) % SNAPS.length]);
+        }
+      }}
+      onPointerCancel={() => {
+        drag.current = null;
+        onChange(nearest(viewerPct));
+      }}
+      onKeyDown={(e) => {
+        // handled here so the page's arrow keys don't orbit the model
+        if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+          e.preventDefault();
+          const step = e.key === "ArrowUp" ? -10 : 10;
+          onChange(Math.min(MAX_PCT, Math.max(MIN_PCT, viewerPct + step)));
+        }
+      }}
+    >
+      <span className="w-12 h-1.5 rounded-full bg-slate-500/70" />
+    </div>
+  );
+}
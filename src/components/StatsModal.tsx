@@ -0,0 +1,122 @@
+// components/StatsModal.tsx
+"use client";
+
+import { useState } from "react";
+import type { DailyStats } from "../../lib/history";
+import { shareText } from "../../lib/share";
+
+type Props = {
+  stats: DailyStats;
+  /** Today's solvedOn, highlighted in the histogram */
+  todaySolvedOn?: number;
+  /** Spoiler-free result text; the Share button only shows once it's set */
+  shareMessage?: string;
+  onClose: () => void;
+};
+
+const SHARE_LABEL = {
+  shared: "Shared!",
+  copied: "Copied to clipboard!",
+  failed: "Couldn't share — try again",
+} as const;
+
+export default function StatsModal({
+  stats,
+  todaySolvedOn,
+  shareMessage,
+  onClose,
+}: Props) {
+  const [shareStatus, setShareStatus] = useState<
+    keyof typeof SHARE_LABEL | null
+  >(null);
+
+  const bars = [
+    ...stats.distribution.map((count, i) => ({
+      label: String(i + 1),
+      count,
+      today: todaySolvedOn === i + 1,
+    })),
+    { label: "✕", count: stats.losses, today: false },
+  ];
+  const maxCount = Math.max(1, ...bars.map((b) => b.count));
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="stats-title"
+        className="w-full max-w-md rounded-2xl border border-slate-600/50 bg-slate-900 p-6 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-5">
+          <h2 id="stats-title" className="text-xl font-bold text-white">
+            Daily Statistics
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors duration-200"
+            aria-label="Close statistics"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="grid grid-cols-4 gap-3 text-center mb-6">
+          {[
+            { label: "Played", value: stats.played },
+            { label: "Win %", value: stats.winPct },
+            { label: "Current Streak", value: stats.currentStreak },
+            { label: "Max Streak", value: stats.maxStreak },
+          ].map(({ label, value }) => (
+            <div key={label}>
+              <div className="text-3xl font-semibold text-white">{value}</div>
+              <div className="text-[11px] uppercase tracking-wide text-slate-400">
+                {label}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <h3 className="text-xs uppercase tracking-wide text-slate-300 mb-3 font-semibold">
+          Guess Distribution
+        </h3>
+        <div className="space-y-1.5">
+          {bars.map((b) => (
+            <div key={b.label} className="flex items-center gap-2 text-sm">
+              <span className="w-4 text-slate-300 text-right">{b.label}</span>
+              <div
+                className={`rounded px-2 py-0.5 text-right font-medium text-white ${
+                  b.today ? "bg-emerald-600" : "bg-slate-600"
+                }`}
+                style={{ width: `${Math.max(8, (b.count / maxCount) * 100)}%` }}
+              >
+                {b.count}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {shareMessage && (
+          <div className="mt-6 flex items-center gap-3">
+            <button
+              onClick={() => shareText(shareMessage).then(setShareStatus)}
+              className="px-5 py-2.5 bg-gradient-to-r from-emerald-600 to-emerald-700 text-white rounded-xl font-medium
+                       transition-all duration-200 hover:from-emerald-500 hover:to-emerald-600 active:scale-95 transform"
+            >
+              📤 Share
+            </button>
+            {shareStatus && (
+              <span className="text-sm text-slate-300">
+                {SHARE_LABEL[shareStatus]}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
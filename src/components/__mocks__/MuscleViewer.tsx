@@ -0,0 +1,95 @@
+// components/__mocks__/MuscleViewer.tsx
+// Stand-in for the WebGL viewer, used by `vi.mock("@/components/MuscleViewer")`.
+// Same props and handle, but "showing" a muscle only sets data-slug (or
+// data-model for a modelUrl), and the clickable muscles are plain buttons.
+import {
+  forwardRef,
+  type ComponentProps,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from "react";
+import { getPlayableMuscles } from "../../../lib/availability";
+import { modelUrl as manifestUrl } from "../../../lib/manifest";
+import type RealViewer from "../MuscleViewer";
+import type { MuscleViewerHandle } from "../MuscleViewer";
+
+export type { MuscleViewerHandle, PickMark, ViewPreset } from "../MuscleViewer";
+
+type Props = Omit<ComponentProps<typeof RealViewer>, "ref">;
+
+const POOL = getPlayableMuscles().map((m) => m.slug);
+
+const MuscleViewer = forwardRef<MuscleViewerHandle, Props>(
+  function MuscleViewer(
+    { onChange, muscleSlug, modelUrl, muscleSlugs, marks },
+    ref
+  ) {
+    const [shown, setShown] = useState<string | null>(null);
+    const [view, setViewState] = useState("");
+    const shownRef = useRef(shown);
+    shownRef.current = shown;
+    const pickListenersRef = useRef(new Set<(slug: string) => void>());
+
+    const show = (slug: string) => {
+      setShown(slug);
+      onChange?.(manifestUrl(slug), slug);
+    };
+
+    // "random" is the next muscle in catalog order, so flows are repeatable
+    const next = () => {
+      const at = shownRef.current ? POOL.indexOf(shownRef.current) : -1;
+      show(POOL[(at + 1) % POOL.length]);
+    };
+
+    const setBySlug = (slug: string) => {
+      if (POOL.includes(slug)) show(slug);
+    };
+
+    useImperativeHandle(ref, () => ({
+      next,
+      setBySlug,
+      setView: (v) => setViewState(v),
+      setAutoRotate: () => {},
+      resetView: () => setViewState(""),
+      orbit: () => {},
+      zoom: () => {},
+      focus: () => {},
+      onPick: (listener) => {
+        pickListenersRef.current.add(listener);
+        return () => {
+          pickListenersRef.current.delete(listener);
+        };
+      },
+    }));
+
+    // like the real viewer: show muscleSlug, or a random one once loaded
+    useEffect(() => {
+      if (muscleSlug) setBySlug(muscleSlug);
+      else if (!shownRef.current) next();
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [muscleSlug]);
+
+    return (
+      <div
+        data-testid="muscle-viewer"
+        data-slug={shown ?? ""}
+        data-model={modelUrl ?? ""}
+        data-view={view}
+      >
+        {muscleSlugs?.map((slug) => (
+          <button
+            key={slug}
+            data-mark={marks?.[slug]}
+            onClick={() => pickListenersRef.current.forEach((l) => l(slug))}
+          >
+            {slug}
+          </button>
+        ))}
+      </div>
+    );
+  }
+);
+
+export default MuscleViewer;
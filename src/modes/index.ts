@@ -0,0 +1,79 @@
+// modes/index.ts
+// The game modes, in switcher order. A new mode is a controller hook plus an
+// entry here; the page and the other modes stay as they are.
+import type { ModeController, ModeEnv } from "./types";
+import { useDailyMode } from "./useDailyMode";
+import { useStudyMode } from "./useStudyMode";
+import { useFreeMode } from "./useFreeMode";
+import { useReverseMode } from "./useReverseMode";
+import { useFactsMode } from "./useFactsMode";
+import { useLocateMode } from "./useLocateMode";
+
+export type Mode = "daily" | "study" | "free" | "reverse" | "facts" | "locate";
+
+export type ModeInfo = {
+  id: Mode;
+  label: string;
+  /** Switcher tooltip */
+  title: string;
+  /** The player may answer by typing or from four options */
+  choice?: boolean;
+  /** Plays the region picked in the header */
+  usesRegion?: boolean;
+};
+
+export const MODES: ModeInfo[] = [
+  { id: "daily", label: "Daily", title: "One shared muscle per day" },
+  {
+    id: "study",
+    label: "Study",
+    title: "Spaced repetition: missed muscles come back sooner",
+    choice: true,
+    usesRegion: true,
+  },
+  { id: "free", label: "Free", title: "Random practice", choice: true },
+  {
+    id: "reverse",
+    label: "Reverse",
+    title:
+      "Read the origin, insertion, innervation and action, then name or click the muscle",
+  },
+  {
+    id: "facts",
+    label: "Facts",
+    title:
+      "Answer the origin, insertion, innervation or action of the shown muscle",
+  },
+  {
+    id: "locate",
+    label: "Locate",
+    title: "Every muscle of the region is shown: click the one named",
+    usesRegion: true,
+  },
+];
+
+export const MODE_INFO = Object.fromEntries(
+  MODES.map((m) => [m.id, m])
+) as Record<Mode, ModeInfo>;
+
+/**
+ * Every mode's controller. All are kept alive (hooks can't be skipped), so
+ * each mode's score survives switching away and back; `active` tells each one
+ * whether it is the mode on screen.
+ */
+export function useModeControllers(
+  env: Omit<ModeEnv, "active">,
+  mode: Mode
+): Record<Mode, ModeController> {
+  const of = (id: Mode): ModeEnv => ({ ...env, active: mode === id });
+  return {
+    daily: useDailyMode(of("daily")),
+    study: useStudyMode(of("study")),
+    free: useFreeMode(of("free")),
+    reverse: useReverseMode(of("reverse")),
+    facts: useFactsMode(of("facts")),
+    locate: useLocateMode(of("locate")),
+  };
+}
+
+export type { ModeController, ModeEnv } from "./types";
@@ -0,0 +1,83 @@
+// modes/score.tsx
+// Running tallies and the header chips that show them.
+import type { ReactNode } from "react";
+import type { AnswerMode } from "@/components/GuessPanel";
+
+export type Tally = { score: number; attempts: number };
+// multiple-choice answers are scored apart from typed ones
+export type Stats = Record<AnswerMode, Tally>;
+
+export const emptyStats = (): Stats => ({
+  typed: { score: 0, attempts: 0 },
+  choice: { score: 0, attempts: 0 },
+});
+
+export function countAnswer(
+  stats: Stats,
+  via: AnswerMode,
+  correct: boolean
+): Stats {
+  const t = stats[via];
+  return {
+    ...stats,
+    [via]: { score: t.score + (correct ? 1 : 0), attempts: t.attempts + 1 },
+  };
+}
+
+const TONE = {
+  emerald: "bg-emerald-500/10 border-emerald-500/30 text-emerald-300",
+  blue: "bg-blue-500/10 border-blue-500/30 text-blue-300",
+  amber: "bg-amber-500/10 border-amber-500/30 text-amber-200",
+  slate: "bg-slate-700/40 border-slate-600/50 text-slate-200",
+} as const;
+
+export function Chip({
+  tone = "slate",
+  children,
+}: {
+  tone?: keyof typeof TONE;
+  children: ReactNode;
+}) {
+  return (
+    <div
+      className={`border rounded-lg px-3 py-2 backdrop-blur-sm ${TONE[tone]} ${
+        tone === "slate" ? "" : "font-medium"
+      }`}
+    >
+      {children}
+    </div>
+  );
+}
+
+/** Score + accuracy for the answer mode in use, and the other one's tally */
+export function ScoreChips({
+  stats,
+  answerMode,
+}: {
+  stats: Stats;
+  answerMode: AnswerMode;
+}) {
+  const { score, attempts } = stats[answerMode];
+  // the other presentation's tally, once it has been used this session
+  const otherMode: AnswerMode = answerMode === "choice" ? "typed" : "choice";
+  const other = stats[otherMode];
+  return (
+    <>
+      <Chip tone="emerald">
+        {answerMode === "choice" ? "Multiple choice" : "Score"}: {score}/
+        {attempts}
+      </Chip>
+      {other.attempts > 0 && (
+        <Chip>
+          {otherMode === "choice" ? "Multiple choice" : "Typed"}: {other.score}/
+          {other.attempts}
+        </Chip>
+      )}
+      {attempts > 0 && (
+        <Chip tone="blue">
+          {Math.round((score / Math.max(1, attempts)) * 100)}% Accuracy
+        </Chip>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,95 @@
+// modes/types.ts
+// What the page needs from a game mode. Each mode is a hook returning a
+// ModeController; the page owns the card session and the layout and asks the
+// active controller what to show, how to score and which extras to render.
+import type { Dispatch, ReactNode, RefObject } from "react";
+import type { MuscleViewerHandle } from "@/components/MuscleViewer";
+import type { AnswerMode, GuessPanelHandle } from "@/components/GuessPanel";
+import type { Hint } from "../../lib/facts";
+import type { MatchKind } from "../../lib/match";
+import type { Phase, Session, SessionAction } from "../../lib/session";
+import type { Region } from "../../lib/study";
+
+/** Where a card comes from: a given slug, or a random pick by the viewer */
+export type CardPick = { slug: string | null; phase?: Phase } | "random";
+
+/** One graded guess from the guess panel */
+export type AnswerEvent = {
+  correct: boolean;
+  kind: MatchKind;
+  guess: string;
+};
+
+/** The 🧭 neighbour layer button */
+export type ContextControl = {
+  shown: boolean;
+  toggle: () => void;
+  disabled?: boolean;
+  label: string;
+  title: string;
+};
+
+/** Shared state and handles every controller may use */
+export type ModeEnv = {
+  session: Session;
+  dispatch: Dispatch<SessionAction>;
+  /** Put a card on screen (also what "Next" does) */
+  show: (pick: CardPick) => void;
+  region: Region;
+  answerMode: AnswerMode;
+  mounted: boolean;
+  viewerRef: RefObject<MuscleViewerHandle | null>;
+  guessRef: RefObject<GuessPanelHandle | null>;
+  /** The player's own on/off context preference */
+  sharedContext: ContextControl;
+  /** This controller's mode is the one being played */
+  active: boolean;
+};
+
+export type ModeController = {
+  /** The first card is (re)chosen whenever this changes, e.g. the region */
+  startKey: string;
+  start: () => CardPick;
+  /** Card for "Next"; omit for modes that can't skip (Daily) */
+  next?: () => CardPick;
+  nextLabel?: string;
+  /** Why "Next" is unavailable right now */
+  nextBlocked?: string;
+  /** Why answers are blocked (e.g. Daily is done for today) */
+  locked?: string;
+  onAnswer?: (e: AnswerEvent) => void;
+  onReveal?: () => void;
+  /** Load these muscles for click-to-identify instead of the single card */
+  pickable?: string[] | null;
+  onPick?: (slug: string) => void;
+  context: ContextControl | null;
+  /** Neighbour layer slugs, when the mode supplies them (Daily asks the server) */
+  contextSlugs?: string[] | null;
+  /** Model URL to show instead of the card's slug (Daily hides its answer) */
+  model?: string | null;
+  /** Download ahead, e.g. the next Study card */
+  prefetch?: string[];
+  /** Extra guess panel settings */
+  guess?: {
+    requireSuggestion?: boolean;
+    hintLevel?: number;
+    feedback?: ReactNode;
+    prompt?: "model" | "facts";
+    /** Facts shown instead of the hintLevel ones */
+    hints?: Hint[];
+    /** Grade guesses here rather than against the card (Daily's server check) */
+    check?: (guess: string) => Promise<MatchKind>;
+    /** The answer once the mode learns it, when the card's slug isn't it */
+    answerSlug?: string | null;
+  };
+  /** Replaces the guess panel (Facts, Locate) */
+  panel?: ReactNode;
+  /** Header stat chips */
+  chips: ReactNode;
+  /** Extra control bar buttons */
+  controls?: ReactNode;
+  /** Notice under the control bar */
+  banner?: ReactNode;
+  /** A modal on top of everything; shortcuts pause while it is open */
+  overlay?: ReactNode;
+};
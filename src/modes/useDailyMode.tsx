@@ -0,0 +1,296 @@
+// modes/useDailyMode.tsx
+// One shared muscle per day, persisted, with a guess grid and streak stats.
+// The server picks and grades the puzzle (/api/daily): this side never knows
+// the answer until the game is over.
+import { useEffect, useRef, useState } from "react";
+import FeedbackGrid from "@/components/FeedbackGrid";
+import StatsModal from "@/components/StatsModal";
+import { dateKey, DAILY_TZ } from "../../lib/daily";
+import { fetchDaily, postDailyGame } from "../../lib/dailyApi";
+import type { DailyGame, DailyState } from "../../lib/dailyPuzzle";
+import {
+  getDailyStats,
+  loadDaily,
+  loadHistory,
+  MAX_DAILY_GUESSES,
+  saveDaily,
+  type DailyPersist,
+  type DailyStats,
+} from "../../lib/history";
+import { buildShareText } from "../../lib/share";
+import { Chip } from "./score";
+import type { ModeController, ModeEnv } from "./types";
+
+// NY-local YYYY-MM-DD (same day boundary as the server's puzzle)
+function nyDateKey() {
+  return dateKey(DAILY_TZ);
+}
+
+/** What the server needs to re-grade a saved game */
+function gameOf(d: DailyPersist): DailyGame {
+  return {
+    guesses: (d.guesses ?? []).map((g) => g.text),
+    // games saved before the flag: unsolved with guesses left = gave up
+    gaveUp:
+      d.gaveUp ??
+      (d.completed &&
+        d.solvedOn === undefined &&
+        (d.guesses?.length ?? 0) < MAX_DAILY_GUESSES),
+    context: !!d.contextUsed,
+  };
+}
+
+/** Today's puzzle, with any saved progress re-graded by the server */
+async function loadToday(): Promise<{
+  record: DailyPersist;
+  state: DailyState;
+}> {
+  const fresh = await fetchDaily();
+  const saved = loadDaily(fresh.date);
+  if (!saved) {
+    const record: DailyPersist = {
+      date: fresh.date,
+      slug: "", // the answer, filled in once the game is over
+      score: 0,
+      attempts: 0,
+      completed: false,
+      solvedOn: undefined,
+      guesses: [],
+    };
+    saveDaily(record);
+    return { record, state: fresh };
+  }
+  const game = gameOf(saved);
+  const resumed =
+    game.guesses.length || game.gaveUp || game.context
+      ? await postDailyGame({ date: fresh.date, ...game })
+      : fresh;
+  return { record: saved, state: resumed };
+}
+
+export function useDailyMode({
+  dispatch,
+  viewerRef,
+  active,
+}: ModeEnv): ModeController {
+  const [daily, setDaily] = useState<DailyPersist | null>(null);
+  const [state, setState] = useState<DailyState | null>(null);
+  // read by onAnswer, which runs before a new state has re-rendered
+  const stateRef = useRef(state);
+  const [failed, setFailed] = useState(false);
+  const [retry, setRetry] = useState(0);
+  // nothing is fetched or saved until the player first opens the Daily
+  const [opened, setOpened] = useState(active);
+  if (active && !opened) setOpened(true);
+  // responses can come back out of order: one is only shown if no later
+  // request's response has been
+  const sentRef = useRef(0);
+  const shownRef = useRef(0);
+  // history summary shown in the stats modal (null = closed)
+  const [summary, setSummary] = useState<DailyStats | null>(null);
+  const openStats = () => setSummary(getDailyStats(loadHistory(), nyDateKey()));
+
+  const update = (next: DailyPersist) => {
+    setDaily(next);
+    saveDaily(next);
+  };
+
+  const receive = (s: DailyState, seq: number) => {
+    if (seq < shownRef.current) return;
+    shownRef.current = seq;
+    stateRef.current = s;
+    setState(s);
+    setFailed(false);
+    // the answer is only known once the game is over
+    setDaily((prev) => {
+      if (!prev || !s.answer || prev.slug === s.answer.slug) return prev;
+      const next = { ...prev, slug: s.answer.slug };
+      saveDaily(next);
+      return next;
+    });
+  };
+
+  useEffect(() => {
+    if (!opened) return;
+    let cancelled = false;
+    const seq = ++sentRef.current;
+    loadToday()
+      .then(({ record, state }) => {
+        if (cancelled) return;
+        setDaily(record);
+        receive(state, seq);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [opened, retry]);
+
+  // resend the game with one change; failures leave the saved game as it was
+  const resend = (change: Partial<DailyGame>) => {
+    if (!daily) return;
+    const seq = ++sentRef.current;
+    postDailyGame({ date: daily.date, ...gameOf(daily), ...change })
+      .then((s) => receive(s, seq))
+      .catch(() => setFailed(true));
+  };
+
+  // can only be done once per day
+  const locked =
+    !!daily && (daily.completed || daily.attempts >= MAX_DAILY_GUESSES);
+  const rows = state?.rows ?? [];
+
+  return {
+    // restart once today's puzzle has arrived
+    startKey: state?.date ?? "",
+    start: () => {
+      // everyone starts today's puzzle from the same, still view
+      viewerRef.current?.setView("anterior", false);
+      return {
+        // an id for the card: the answer itself stays on the server
+        slug: state ? `daily-${state.date}` : null,
+        phase: !locked ? undefined : daily?.solvedOn ? "correct" : "failed",
+      };
+    },
+    locked: locked ? "Daily is complete for today" : undefined,
+    model: state?.model ?? null,
+
+    onAnswer: ({ correct }) => {
+      if (correct) {
+        openStats();
+        return;
+      }
+      if (stateRef.current?.status === "lost") {
+        dispatch({ type: "fail" });
+        openStats();
+      }
+    },
+
+    // giving up uses a guess and ends the day
+    onReveal: () => {
+      if (!daily) return;
+      update({
+        ...daily,
+        completed: true,
+        gaveUp: true,
+        attempts: daily.attempts + 1,
+      });
+      resend({ gaveUp: true });
+      openStats();
+    },
+
+    context: {
+      shown: !!daily?.contextUsed,
+      // can't be taken back: it was seen, so it counts as a hint
+      toggle: () => {
+        if (!daily || daily.contextUsed) return;
+        update({ ...daily, contextUsed: true });
+        resend({ context: true });
+      },
+      disabled: locked || !!daily?.contextUsed,
+      label: daily?.contextUsed ? "Context (hint used)" : "Context",
+      title: "Show neighbouring muscles faintly (counts as a hint)",
+    },
+    contextSlugs: state?.neighbors ?? null,
+
+    guess: {
+      requireSuggestion: true,
+      hints: state?.hints ?? [],
+      answerSlug: state?.answer?.slug ?? null,
+      // graded on the server; the attempt is saved before the panel hears back
+      check: async (guess) => {
+        if (!daily) throw new Error("Daily not loaded");
+        const game = gameOf(daily);
+        const seq = ++sentRef.current;
+        const next = await postDailyGame({
+          date: daily.date,
+          ...game,
+          guesses: [...game.guesses, guess],
+        });
+        const row = next.rows[next.rows.length - 1];
+        const solved = next.status === "solved";
+        update({
+          ...daily,
+          slug: next.answer?.slug ?? daily.slug,
+          // attempts counts wrong guesses; the correct guess is attempts + 1
+          attempts: solved ? daily.attempts : daily.attempts + 1,
+          completed: next.status !== "playing",
+          solvedOn: solved ? daily.attempts + 1 : undefined,
+          guesses: [
+            ...(daily.guesses ?? []),
+            { text: guess, slug: row?.slug ?? null },
+          ],
+        });
+        receive(next, seq);
+        return next.last ?? "wrong";
+      },
+      feedback: <FeedbackGrid rows={rows} />,
+    },
+
+    chips: (
+      <>
+        <Chip tone="amber">
+          Guesses: {daily?.attempts ?? 0}/{MAX_DAILY_GUESSES}
+        </Chip>
+        {typeof daily?.solvedOn === "number" && (
+          <Chip tone="emerald">Solved on guess #{daily.solvedOn}</Chip>
+        )}
+        {daily && (
+          <Chip tone={daily.completed ? "amber" : "slate"}>
+            {daily.completed
+              ? "Daily: Done for today ✅"
+              : "Daily: In progress"}
+          </Chip>
+        )}
+        <button
+          onClick={openStats}
+          className="rounded-lg px-3 py-2 border border-slate-600/50 bg-slate-700/40 text-slate-200
+                   hover:bg-slate-700/70 transition-all duration-200"
+          title="Streaks and guess distribution"
+        >
+          📊 Stats
+        </button>
+      </>
+    ),
+
+    banner: failed && (
+      <div className="w-full border-b border-amber-600/30 bg-amber-900/20">
+        <div className="mx-auto max-w-6xl px-6 py-4 flex items-center gap-4">
+          <div className="text-amber-300 text-xl leading-none">⚠️</div>
+          <p className="flex-1 text-amber-200 text-sm">
+            Couldn’t reach the Daily server. The Daily needs a connection, since
+            guesses are checked there. Your guesses so far are saved.
+          </p>
+          <button
+            onClick={() => setRetry((n) => n + 1)}
+            className="rounded-md border border-amber-700/40 px-2 py-1 text-amber-200 text-xs hover:bg-amber-800/30"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    ),
+
+    overlay: summary && (
+      <StatsModal
+        stats={summary}
+        todaySolvedOn={daily?.solvedOn}
+        shareMessage={
+          daily?.completed && state
+            ? buildShareText({
+                puzzle: state.puzzle,
+                rows,
+                solvedOn: daily.solvedOn,
+                maxGuesses: MAX_DAILY_GUESSES,
+                streak: summary.currentStreak,
+                contextUsed: daily.contextUsed,
+              })
+            : undefined
+        }
+        onClose={() => setSummary(null)}
+      />
+    ),
+  };
+}
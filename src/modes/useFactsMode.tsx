@@ -0,0 +1,52 @@
+// modes/useFactsMode.tsx
+// Multiple choice on the shown muscle's origin, insertion, innervation or action.
+import { useEffect, useRef, useState } from "react";
+import FactQuiz, { type FactQuizHandle } from "@/components/FactQuiz";
+import {
+  emptyFactScores,
+  loadFactScores,
+  OIIA_FIELDS,
+  OIIA_LABEL,
+  recordFactAnswer,
+  type FactScores,
+} from "../../lib/facts";
+import { Chip } from "./score";
+import type { ModeController, ModeEnv } from "./types";
+
+export function useFactsMode({
+  session,
+  dispatch,
+  sharedContext,
+}: ModeEnv): ModeController {
+  const factRef = useRef<FactQuizHandle>(null);
+  // running right/total per OIIA field (persisted)
+  const [scores, setScores] = useState<FactScores>(emptyFactScores);
+  useEffect(() => setScores(loadFactScores()), []);
+
+  return {
+    startKey: "",
+    start: () => "random",
+    next: () => "random",
+    // scored as a miss via onAnswer
+    onReveal: () => factRef.current?.reveal(),
+    context: sharedContext,
+
+    panel: (
+      <FactQuiz
+        ref={factRef}
+        currentSlug={session.slug}
+        onAnswer={(field, correct) => {
+          setScores(recordFactAnswer(field, correct));
+          // one answer per question
+          dispatch({ type: correct ? "correct" : "fail" });
+        }}
+      />
+    ),
+
+    chips: OIIA_FIELDS.map((f) => (
+      <Chip key={f}>
+        {OIIA_LABEL[f]}: {scores[f].correct}/{scores[f].total}
+      </Chip>
+    )),
+  };
+}
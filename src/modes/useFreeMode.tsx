@@ -0,0 +1,22 @@
+// modes/useFreeMode.tsx
+// Random practice over every playable muscle.
+import { useState } from "react";
+import { countAnswer, emptyStats, ScoreChips, type Stats } from "./score";
+import type { ModeController, ModeEnv } from "./types";
+
+export function useFreeMode({
+  answerMode,
+  sharedContext,
+}: ModeEnv): ModeController {
+  const [stats, setStats] = useState<Stats>(emptyStats);
+
+  return {
+    startKey: "",
+    start: () => "random",
+    next: () => "random",
+    onAnswer: ({ correct }) =>
+      setStats((prev) => countAnswer(prev, answerMode, correct)),
+    context: sharedContext,
+    chips: <ScoreChips stats={stats} answerMode={answerMode} />,
+  };
+}
@@ -0,0 +1,72 @@
+// modes/useLocateMode.tsx
+// The region's muscles are all loaded; click the one named.
+import { useMemo, useState } from "react";
+import LocatePanel from "@/components/LocatePanel";
+import { getPlayableByRegion } from "../../lib/availability";
+import { Chip, type Tally } from "./score";
+import type { ModeController, ModeEnv } from "./types";
+
+export function useLocateMode({
+  session,
+  dispatch,
+  region,
+}: ModeEnv): ModeController {
+  // clicks on the region's muscles (score = right first or later)
+  const [stats, setStats] = useState<Tally>({ score: 0, attempts: 0 });
+  const [lastPick, setLastPick] = useState<{
+    slug: string;
+    correct: boolean;
+    round: number;
+  } | null>(null);
+
+  const pickable = useMemo(
+    () => getPlayableByRegion(region).map((m) => m.slug),
+    [region]
+  );
+
+  const randomTarget = () => {
+    const pool = pickable.filter((slug) => slug !== session.slug);
+    return {
+      slug: pool.length ? pool[Math.floor(Math.random() * pool.length)] : null,
+    };
+  };
+
+  return {
+    // new target when the region changes
+    startKey: region,
+    start: randomTarget,
+    next: randomTarget,
+
+    onReveal: () =>
+      setStats((prev) => ({ ...prev, attempts: prev.attempts + 1 })),
+
+    pickable,
+    onPick: (slug) => {
+      const correct = slug === session.slug;
+      setLastPick({ slug, correct, round: session.round });
+      setStats((prev) => ({
+        score: prev.score + (correct ? 1 : 0),
+        attempts: prev.attempts + 1,
+      }));
+      dispatch({ type: correct ? "correct" : "wrong" });
+    },
+
+    context: null,
+
+    panel: (
+      <LocatePanel
+        currentSlug={session.slug}
+        // only this card's clicks
+        lastPick={lastPick?.round === session.round ? lastPick : null}
+        revealed={session.phase !== "guessing"}
+        count={pickable.length}
+      />
+    ),
+
+    chips: (
+      <Chip tone="emerald">
+        Found: {stats.score}/{stats.attempts}
+      </Chip>
+    ),
+  };
+}
@@ -0,0 +1,62 @@
+// modes/useReverseMode.tsx
+// The OIIA facts are shown and the muscle is hidden: name it, or click it
+// among the muscles of its region.
+import { useMemo, useState } from "react";
+import { getPlayableByRegion } from "../../lib/availability";
+import { getMuscle } from "../../lib/catalog";
+import { Chip } from "./score";
+import type { ModeController, ModeEnv } from "./types";
+
+// full points for a first-try answer, one less per wrong guess
+type ReverseStats = { points: number; solved: number; seen: number };
+const REVERSE_MAX_POINTS = 3;
+
+export function useReverseMode({ session, guessRef }: ModeEnv): ModeController {
+  const [stats, setStats] = useState<ReverseStats>({
+    points: 0,
+    solved: 0,
+    seen: 0,
+  });
+
+  const region = session.slug ? getMuscle(session.slug)?.region : undefined;
+  const pickable = useMemo(
+    () => (region ? getPlayableByRegion(region).map((m) => m.slug) : null),
+    [region]
+  );
+
+  return {
+    startKey: "",
+    start: () => "random",
+    next: () => "random",
+
+    onAnswer: ({ correct }) => {
+      if (!correct) return; // wrong guesses are the session's misses
+      setStats((prev) => ({
+        points: prev.points + Math.max(1, REVERSE_MAX_POINTS - session.misses),
+        solved: prev.solved + 1,
+        seen: prev.seen + 1,
+      }));
+    },
+    onReveal: () => setStats((prev) => ({ ...prev, seen: prev.seen + 1 })),
+
+    pickable,
+    // graded like a typed name
+    onPick: (slug) => {
+      const picked = getMuscle(slug);
+      if (picked) guessRef.current?.submitGuess(picked.name);
+    },
+
+    // a whole region is already on screen
+    context: null,
+    guess: { prompt: "facts" },
+
+    chips: (
+      <>
+        <Chip tone="emerald">Points: {stats.points}</Chip>
+        <Chip tone="blue">
+          Solved: {stats.solved}/{stats.seen}
+        </Chip>
+      </>
+    ),
+  };
+}
@@ -0,0 +1,163 @@
+// modes/useStudyMode.tsx
+// Spaced repetition over the chosen region's deck.
+import { useEffect, useMemo, useState } from "react";
+import { getUnavailable } from "../../lib/availability";
+import {
+  advanceStudy,
+  currentStudySlug,
+  getStudyCounts,
+  loadStudy,
+  peekNextStudySlug,
+  resetStudy,
+  reviewStudy,
+  setStudyRegion,
+  type Grade,
+  type StudyProgress,
+} from "../../lib/study";
+import { Chip, countAnswer, emptyStats, ScoreChips, type Stats } from "./score";
+import type { ModeController, ModeEnv } from "./types";
+
+export function useStudyMode({
+  session,
+  show,
+  region,
+  answerMode,
+  mounted,
+  sharedContext,
+}: ModeEnv): ModeController {
+  const [study, setStudy] = useState<StudyProgress>({
+    order: [],
+    current: null,
+    cards: {},
+    completed: false,
+    settings: { region },
+  });
+  const [stats, setStats] = useState<Stats>(emptyStats);
+  // unavailable-muscles notice, re-opened whenever the region changes
+  const [showMissing, setShowMissing] = useState(true);
+  useEffect(() => setShowMissing(true), [region]);
+
+  useEffect(() => {
+    setStudy(loadStudy());
+  }, []);
+
+  // feed the first outcome of the current card into the SRS scheduler
+  const grade = (g: Grade) => {
+    if (!session.slug || session.misses > 0) return;
+    setStudy(reviewStudy(session.slug, g));
+  };
+
+  // the card after this one, downloaded while the current one is on screen
+  const prefetch = useMemo(() => {
+    const next = peekNextStudySlug(study);
+    return next ? [next] : undefined;
+  }, [study]);
+
+  const counts = getStudyCounts(study);
+  const missingList = mounted ? getUnavailable(region) : [];
+
+  return {
+    startKey: region,
+    start: () => {
+      // only rebuild the deck when it was made for another region
+      if (loadStudy().settings.region !== region) setStudyRegion(region);
+      setStudy(loadStudy());
+      return { slug: currentStudySlug() };
+    },
+    next: () => {
+      const updated = advanceStudy();
+      setStudy(updated);
+      // the same card may come straight back if it is the only one left
+      return { slug: updated.completed ? null : updated.current };
+    },
+    nextLabel: "Next in Study",
+    nextBlocked: study.completed
+      ? "Nothing left to study right now"
+      : undefined,
+
+    onAnswer: ({ correct }) => {
+      setStats((prev) => countAnswer(prev, answerMode, correct));
+      grade(correct ? "good" : "again");
+    },
+    onReveal: () => {
+      setStats((prev) => countAnswer(prev, answerMode, false));
+      grade("again");
+    },
+
+    context: sharedContext,
+    prefetch,
+
+    chips: (
+      <>
+        <ScoreChips stats={stats} answerMode={answerMode} />
+        {mounted && (
+          <Chip>
+            {study.completed
+              ? "Study: All caught up ✅"
+              : `Due today: ${counts.due} · New: ${counts.new} · Learning: ${counts.learning}`}
+          </Chip>
+        )}
+      </>
+    ),
+
+    controls: (
+      <button
+        onClick={() => {
+          const p = resetStudy(region);
+          setStudy(p);
+          setStats(emptyStats());
+          show({ slug: p.current });
+        }}
+        className="ml-auto px-5 py-2.5 rounded-xl border border-slate-600/50 text-slate-200
+                 hover:bg-slate-700/50 hover:border-slate-500 transition-all duration-200
+                 active:scale-95 transform font-medium"
+      >
+        Reset Study
+      </button>
+    ),
+
+    banner: showMissing && missingList.length > 0 && (
+      <div className="w-full border-b border-amber-600/30 bg-amber-900/20">
+        <div className="mx-auto max-w-6xl px-6 py-4 flex items-start gap-4">
+          <div className="text-amber-300 text-xl leading-none">⚠️</div>
+          <div className="flex-1">
+            <h2 className="text-amber-200 font-semibold">
+              Some{" "}
+              {region === "all" ? "muscles" : `${region} extremity muscles`}{" "}
+              aren’t available
+            </h2>
+            <p className="text-amber-200/90 text-sm mt-1">
+              The following muscles are left out of Study, Free and Daily until
+              they can be shown in the 3D viewer:
+            </p>
+
+            <ul className="mt-3 grid sm:grid-cols-2 gap-2">
+              {missingList.map((m) => (
+                <li
+                  key={m.slug}
+                  className="rounded-lg border border-amber-700/40 bg-amber-800/20 px-3 py-2 text-amber-100 text-sm"
+                >
+                  <span className="font-medium">{m.name}</span>
+                  <span className="opacity-80"> — {m.reason}</span>
+                </li>
+              ))}
+            </ul>
+
+            <p className="text-amber-200/80 text-xs mt-3">
+              We’ll include them once the models are fixed.
+            </p>
+          </div>
+
+          <button
+            onClick={() => setShowMissing(false)}
+            className="ml-2 rounded-md border border-amber-700/40 px-2 py-1 text-amber-200 text-xs hover:bg-amber-800/30"
+            aria-label="Dismiss missing muscles notice"
+            title="Dismiss"
+          >
+            Dismiss
+          </button>
+        </div>
+      </div>
+    ),
+  };
+}
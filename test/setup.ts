@@ -0,0 +1,39 @@
+// test/setup.ts
+// Runs before every test file: a fresh in-memory localStorage per test, and
+// React trees unmounted between tests.
+import { cleanup } from "@testing-library/react";
+import { afterEach, beforeEach } from "vitest";
+
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+  clear() {
+    this.items.clear();
+  }
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value));
+  }
+}
+
+beforeEach(() => {
+  Object.defineProperty(window, "localStorage", {
+    value: new MemoryStorage(),
+    configurable: true,
+  });
+});
+
+afterEach(() => {
+  cleanup();
+});
@@ -0,0 +1,17 @@
+// vitest.config.mts
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // same mapping as tsconfig "paths"
+    alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+  // tsconfig keeps JSX for Next to compile; tests need it turned into calls
+  oxc: { jsx: { runtime: "automatic" } },
+  test: {
+    environment: "jsdom",
+    setupFiles: ["./test/setup.ts"],
+    include: ["lib/**/*.test.ts", "src/**/*.test.{ts,tsx}"],
+  },
+});